@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { AuditEntry, AuditQuery } from "./types";
+import {
+  getCommandTitle,
+  getSlots,
+  identifyCustomCommand,
+  ParsedCommand,
+  parseCustomCommand,
+} from "../commanding/grammar";
+
+const AUDIT_FILE = "audit.jsonl";
+const MAX_FILE_SIZE = 1024 * 1024; // bytes
+const MAX_ROTATED_FILES = 5;
+const DEFAULT_QUERY_LIMIT = 500;
+const REDACTED = "[redacted]";
+
+let outputChannel: vscode.OutputChannel | null = null;
+let auditDir: string | null = null;
+// Appends are chained so that entries land in the file in order
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Set up the "AirCodum" output channel and the audit file location.
+ * The audit directory is only created once the first entry is written.
+ * @param context
+ */
+export function initAuditLog(context: vscode.ExtensionContext) {
+  outputChannel = vscode.window.createOutputChannel("AirCodum");
+  auditDir = path.join(context.globalStorageUri.fsPath, "audit");
+  context.subscriptions.push(outputChannel);
+}
+
+export function showAuditLog() {
+  outputChannel?.show(true);
+}
+
+/**
+ * Record a remote action in the output channel and the JSONL audit file.
+ * @param entry
+ */
+export function recordAudit(entry: AuditEntry) {
+  outputChannel?.appendLine(formatEntry(entry));
+
+  if (!auditDir) return;
+  const dir = auditDir;
+  const line = JSON.stringify(entry) + "\n";
+  writeQueue = writeQueue
+    .then(() => appendToAuditFile(dir, line))
+    .catch((error) => console.error("Error writing audit log:", error));
+}
+
+/**
+ * Split a text command into a command name and its arguments for auditing.
+ * Text slots, i.e. typed text, are replaced by a placeholder when
+ * `redactTypedText` is set.
+ * @param command
+ * @param redactTypedText
+ */
+export function describeCommand(
+  command: string,
+  redactTypedText: boolean
+): { command: string; args?: Record<string, unknown> } {
+  const name = identifyCustomCommand(command);
+  if (!name) {
+    return { command };
+  }
+
+  let parsed: ParsedCommand | null = null;
+  try {
+    parsed = parseCustomCommand(command);
+  } catch {
+    // The parse error is audited as the outcome
+  }
+  const title = getCommandTitle(name);
+  if (!parsed) {
+    // Which part is typed text is unknown, so all of it counts as such
+    const argument = command.trim().slice(title.length).trim();
+    return {
+      command: title,
+      args: { text: redactTypedText ? REDACTED : argument },
+    };
+  }
+
+  const slots = getSlots(parsed.name);
+  if (slots.length === 0) {
+    return { command: title };
+  }
+  const args: Record<string, unknown> = {};
+  for (const slot of slots) {
+    const redact = redactTypedText && slot.type === "text";
+    args[slot.name] = redact ? REDACTED : parsed.args[slot.name];
+  }
+  return { command: title, args };
+}
+
+/**
+ * Replace a printable key with a placeholder, keeping named keys like "enter".
+ * @param key
+ * @param redactTypedText
+ */
+export function redactKey(key: string, redactTypedText: boolean): string {
+  return redactTypedText && [...key].length === 1 ? REDACTED : key;
+}
+
+/**
+ * Replace text typed on a device with a placeholder.
+ * @param text
+ * @param redactTypedText
+ */
+export function redactText(text: string, redactTypedText: boolean): string {
+  return redactTypedText ? REDACTED : text;
+}
+
+export function shouldRedactTypedText(): boolean {
+  return vscode.workspace
+    .getConfiguration("aircodum")
+    .get<boolean>("audit.redactTypedText", true);
+}
+
+/**
+ * Read audit entries from the current and rotated files, oldest first.
+ * @param query filter by device and time range
+ */
+export async function queryAuditLog(query: AuditQuery): Promise<AuditEntry[]> {
+  // Let pending writes land before reading
+  await writeQueue;
+
+  const entries: AuditEntry[] = [];
+  for (const file of getAuditFiles()) {
+    const content = await fs.promises.readFile(file, "utf-8");
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry: AuditEntry = JSON.parse(line);
+        if (matchesQuery(entry, query)) {
+          entries.push(entry);
+        }
+      } catch (error) {
+        console.error("Skipping malformed audit entry:", error);
+      }
+    }
+  }
+  return entries.slice(-(query.limit ?? DEFAULT_QUERY_LIMIT));
+}
+
+/**
+ * Concatenate every audit file into a single JSONL file.
+ * @param targetPath
+ */
+export async function exportAuditLog(targetPath: string): Promise<void> {
+  await writeQueue;
+  const contents = await Promise.all(
+    getAuditFiles().map((file) => fs.promises.readFile(file, "utf-8"))
+  );
+  await fs.promises.writeFile(targetPath, contents.join(""));
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  return (
+    (!query.deviceId || entry.deviceId === query.deviceId) &&
+    (query.from === undefined || entry.timestamp >= query.from) &&
+    (query.to === undefined || entry.timestamp <= query.to)
+  );
+}
+
+/**
+ * Rotated files first (oldest to newest), then the current file.
+ */
+function getAuditFiles(): string[] {
+  if (!auditDir || !fs.existsSync(auditDir)) {
+    return [];
+  }
+  const dir = auditDir;
+  const rotated = fs
+    .readdirSync(dir)
+    .filter((file) => /^audit-\d+\.jsonl$/.test(file))
+    .sort(byTimestamp)
+    .map((file) => path.join(dir, file));
+  const current = path.join(dir, AUDIT_FILE);
+  return fs.existsSync(current) ? [...rotated, current] : rotated;
+}
+
+async function appendToAuditFile(dir: string, line: string) {
+  await fs.promises.mkdir(dir, { recursive: true });
+  const current = path.join(dir, AUDIT_FILE);
+
+  const size = await fs.promises
+    .stat(current)
+    .then((stats) => stats.size)
+    .catch(() => 0);
+  if (size + Buffer.byteLength(line) > MAX_FILE_SIZE) {
+    await rotate(dir, current);
+  }
+
+  await fs.promises.appendFile(current, line);
+}
+
+async function rotate(dir: string, current: string) {
+  await fs.promises.rename(
+    current,
+    path.join(dir, `audit-${Date.now()}.jsonl`)
+  );
+
+  const rotated = (await fs.promises.readdir(dir))
+    .filter((file) => /^audit-\d+\.jsonl$/.test(file))
+    .sort(byTimestamp);
+  for (const file of rotated.slice(0, -MAX_ROTATED_FILES)) {
+    await fs.promises.unlink(path.join(dir, file));
+  }
+}
+
+function byTimestamp(a: string, b: string): number {
+  return parseInt(a.slice(6)) - parseInt(b.slice(6));
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const parts = [
+    new Date(entry.timestamp).toISOString(),
+    `[${entry.outcome}]`,
+    `"${entry.deviceName}"`,
+    entry.type,
+  ];
+  if (entry.command) {
+    parts.push(entry.command);
+  }
+  if (entry.args) {
+    parts.push(JSON.stringify(entry.args));
+  }
+  if (entry.error) {
+    parts.push(`- ${entry.error}`);
+  }
+  return parts.join(" ");
+}
@@ -0,0 +1,23 @@
+export type AuditOutcome = "ok" | "denied" | "error";
+
+/**
+ * One remote action performed by a connected device.
+ */
+export interface AuditEntry {
+  timestamp: number;
+  deviceId: string;
+  deviceName: string;
+  // Incoming message type, e.g. "command", "mouse-event" or "file-upload"
+  type: string;
+  command?: string;
+  args?: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditQuery {
+  deviceId?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+}
@@ -0,0 +1,55 @@
+import screenshot from "screenshot-desktop";
+import type { RawDisplay } from "./displays";
+import { loadRobotJS } from "../input/robotjs";
+
+/**
+ * Where screen frames come from. Capture goes through the current backend,
+ * so that the streaming pipeline can run without a desktop, e.g. in tests.
+ */
+export interface CaptureBackend {
+  listDisplays(): Promise<RawDisplay[]>;
+  /**
+   * Capture a display as an encoded image.
+   * @param options `screen` is a raw display id, or undefined for the default screen
+   */
+  grab(options: {
+    format: "jpg" | "png";
+    screen?: string | number;
+  }): Promise<Buffer>;
+  // Size of the primary display, in mouse coordinates
+  getScreenSize(): { width: number; height: number };
+}
+
+/**
+ * Captures the real desktop through screenshot-desktop.
+ */
+export const desktopCaptureBackend: CaptureBackend = {
+  listDisplays: () => screenshot.listDisplays() as Promise<RawDisplay[]>,
+  // The declared DisplayID type is a number, but only macOS uses numbers
+  grab: ({ format, screen }) =>
+    screenshot(
+      screen === undefined ? { format } : { format, screen: screen as never }
+    ),
+  getScreenSize: () => {
+    try {
+      return loadRobotJS().getScreenSize();
+    } catch {
+      // Only used for displays reported without a size, which cannot take input without robotjs anyway
+      return { width: 0, height: 0 };
+    }
+  },
+};
+
+let backend: CaptureBackend = desktopCaptureBackend;
+
+export function getCaptureBackend(): CaptureBackend {
+  return backend;
+}
+
+/**
+ * Capture from another backend from now on.
+ * @param next
+ */
+export function setCaptureBackend(next: CaptureBackend) {
+  backend = next;
+}
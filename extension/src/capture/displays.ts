@@ -0,0 +1,250 @@
+import jimp from "../jimp";
+import { CaptureBackend, getCaptureBackend } from "./backend";
+
+/**
+ * What a client streams: the primary display, one display by id, or every
+ * display composed into the virtual desktop.
+ */
+export type DisplaySelection = string;
+
+export const PRIMARY_DISPLAY = "primary";
+export const VIRTUAL_DESKTOP = "all";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Display {
+  id: string;
+  name: string;
+  primary: boolean;
+  // Position in the virtual desktop, in mouse coordinates.
+  // Null when the platform does not report it (secondary displays on macOS).
+  bounds: Rect | null;
+}
+
+/**
+ * A display as reported by the capture backend. screenshot-desktop's fields vary by platform:
+ * Linux reports offsets, Windows edges and macOS only which one is primary.
+ */
+export interface RawDisplay {
+  id: string | number;
+  name?: string;
+  primary?: boolean;
+  width?: number;
+  height?: number;
+  offsetX?: number;
+  offsetY?: number;
+  left?: number;
+  top?: number;
+}
+
+let cachedDisplays: Display[] | null = null;
+// Backend the cached displays were listed by
+let cachedBackend: CaptureBackend | null = null;
+// screenshot-desktop ids are numbers on macOS and strings elsewhere
+const rawIds = new Map<string, string | number>();
+
+/**
+ * Convert screenshot-desktop's display list into displays with bounds.
+ * @param raw
+ * @param primarySize size of the primary display, used when the platform does not report it
+ */
+export function normalizeDisplays(
+  raw: RawDisplay[],
+  primarySize: { width: number; height: number }
+): Display[] {
+  const hasPrimary = raw.some((display) => display.primary);
+  return raw.map((display, index) => {
+    const x = display.offsetX ?? display.left ?? 0;
+    const y = display.offsetY ?? display.top ?? 0;
+    // Windows does not flag the primary display, which sits at the origin
+    const primary =
+      display.primary ??
+      (hasPrimary
+        ? false
+        : display.left !== undefined
+          ? x === 0 && y === 0
+          : index === 0);
+
+    let bounds: Rect | null = null;
+    if (display.width && display.height) {
+      bounds = { x, y, width: display.width, height: display.height };
+    } else if (primary) {
+      bounds = { x: 0, y: 0, ...primarySize };
+    }
+
+    return {
+      id: String(display.id),
+      name: display.name || `Display ${index + 1}`,
+      primary,
+      bounds,
+    };
+  });
+}
+
+/**
+ * List the connected displays. The list is cached because listing spawns a
+ * process on every platform.
+ * @param refresh list again, e.g. after a monitor was plugged in
+ */
+export async function getDisplays(refresh = false): Promise<Display[]> {
+  const backend = getCaptureBackend();
+  if (cachedDisplays && cachedBackend === backend && !refresh) {
+    return cachedDisplays;
+  }
+  cachedBackend = backend;
+  const primarySize = backend.getScreenSize();
+  try {
+    const raw = await backend.listDisplays();
+    rawIds.clear();
+    raw.forEach((display) => rawIds.set(String(display.id), display.id));
+    cachedDisplays = normalizeDisplays(raw, primarySize);
+  } catch (error) {
+    console.error("Error listing displays:", error);
+    cachedDisplays = [];
+  }
+  if (cachedDisplays.length === 0) {
+    cachedDisplays = [
+      {
+        id: PRIMARY_DISPLAY,
+        name: "Primary display",
+        primary: true,
+        bounds: { x: 0, y: 0, ...primarySize },
+      },
+    ];
+  }
+  return cachedDisplays;
+}
+
+/**
+ * Smallest rectangle containing every display, or null if any position is unknown.
+ * @param displays
+ */
+export function getVirtualDesktopBounds(displays: Display[]): Rect | null {
+  const bounds = displays.map((display) => display.bounds);
+  if (bounds.length === 0 || bounds.some((rect) => rect === null)) {
+    return null;
+  }
+  const rects = bounds as Rect[];
+  const x = Math.min(...rects.map((rect) => rect.x));
+  const y = Math.min(...rects.map((rect) => rect.y));
+  return {
+    x,
+    y,
+    width: Math.max(...rects.map((rect) => rect.x + rect.width)) - x,
+    height: Math.max(...rects.map((rect) => rect.y + rect.height)) - y,
+  };
+}
+
+/**
+ * Whether a client may select a display. The virtual desktop can only be
+ * streamed, and clicked on, when every display's position is known.
+ * @param selection
+ * @param displays
+ */
+export function isValidSelection(
+  selection: DisplaySelection,
+  displays: Display[]
+): boolean {
+  if (selection === VIRTUAL_DESKTOP) {
+    return getVirtualDesktopBounds(displays) !== null;
+  }
+  return (
+    selection === PRIMARY_DISPLAY ||
+    displays.some((display) => display.id === selection)
+  );
+}
+
+/**
+ * Area of the virtual desktop a selection covers, in mouse coordinates.
+ * @param selection
+ * @param displays
+ */
+export function getSelectionBounds(
+  selection: DisplaySelection,
+  displays: Display[]
+): Rect | null {
+  switch (selection) {
+    case PRIMARY_DISPLAY:
+      return displays.find((display) => display.primary)?.bounds ?? null;
+    case VIRTUAL_DESKTOP:
+      return getVirtualDesktopBounds(displays);
+    default:
+      return (
+        displays.find((display) => display.id === selection)?.bounds ?? null
+      );
+  }
+}
+
+/**
+ * Convert a point in the client's view of a display into mouse coordinates.
+ * @param bounds the displayed area
+ * @param x
+ * @param y
+ * @param clientWidth width of the client's view
+ * @param clientHeight height of the client's view
+ */
+export function mapToScreen(
+  bounds: Rect,
+  x: number,
+  y: number,
+  clientWidth: number,
+  clientHeight: number
+): { x: number; y: number } {
+  return {
+    x: Math.floor(bounds.x + (x / clientWidth) * bounds.width),
+    y: Math.floor(bounds.y + (y / clientHeight) * bounds.height),
+  };
+}
+
+/**
+ * Capture a selection as an encoded image.
+ * @param selection
+ * @param displays
+ * @param format
+ */
+export async function captureDisplay(
+  selection: DisplaySelection,
+  displays: Display[],
+  format: "jpg" | "png" = "jpg"
+): Promise<Buffer> {
+  if (selection === PRIMARY_DISPLAY) {
+    // Without a screen, Linux captures every monitor at once
+    const primary = displays.find((display) => display.primary);
+    return primary && rawIds.has(primary.id)
+      ? captureScreen(primary.id, format)
+      : getCaptureBackend().grab({ format });
+  }
+  if (selection !== VIRTUAL_DESKTOP) {
+    return captureScreen(selection, format);
+  }
+
+  const desktop = getVirtualDesktopBounds(displays);
+  if (!desktop) {
+    throw new Error("The display layout is not known on this platform");
+  }
+  const parts = await Promise.all(
+    displays.map(async (display) => ({
+      ...(display.bounds as Rect),
+      image: await captureScreen(display.id, format),
+    }))
+  );
+  return jimp.composeImages(
+    desktop.width,
+    desktop.height,
+    parts.map((part) => ({
+      ...part,
+      x: part.x - desktop.x,
+      y: part.y - desktop.y,
+    })),
+    format === "png" ? "image/png" : "image/bmp"
+  );
+}
+
+function captureScreen(id: string, format: "jpg" | "png"): Promise<Buffer> {
+  return getCaptureBackend().grab({ format, screen: rawIds.get(id) ?? id });
+}
@@ -0,0 +1,698 @@
+import crypto from "crypto";
+import { ResizeStrategy } from "jimp";
+import jimp from "../jimp";
+import { EncodedTile } from "../protocol/frames";
+import { Bitmap, cropBitmap, findChangedTiles, getTileRects } from "./tiles";
+import {
+  captureDisplay,
+  DisplaySelection,
+  getDisplays,
+  PRIMARY_DISPLAY,
+} from "./displays";
+import { getRegionKey, getRegionPixels, Region } from "./regions";
+
+export interface VNCQualitySettings {
+  width: number;
+  jpegQuality: number;
+  fps: number;
+}
+
+export type FrameDimensions = { width: number; height: number };
+type FrameImage = Awaited<ReturnType<typeof jimp.createImage>>;
+
+/**
+ * What a subscriber receives for a frame: the whole frame, or only the
+ * tiles that changed since the last frame it was sent, with when the screen
+ * was captured in ms since the epoch.
+ */
+export type FrameUpdate = (
+  | { keyframe: true; image: Buffer }
+  | { keyframe: false; tiles: EncodedTile[] }
+) & { dimensions: FrameDimensions; capturedAt: number };
+
+interface CapturedFrame {
+  image: Buffer;
+  // ms since the epoch
+  capturedAt: number;
+}
+
+/**
+ * How far a client is behind on the frames sent to it.
+ */
+export interface ClientLoad {
+  // Bytes queued on the socket but not yet sent
+  bufferedAmount: number;
+  // Frames sent but not yet acknowledged, or null for clients that do not acknowledge
+  unackedFrames: number | null;
+  // Average time from sending a frame to its acknowledgement, or null if unknown
+  latency: number | null;
+}
+
+interface FrameSubscriber {
+  callback: (update: FrameUpdate) => void;
+  // Whether the client can draw changed tiles over its last frame
+  tiles: boolean;
+  getLoad: () => ClientLoad;
+  // Settings the client asked for, which adaptation never exceeds
+  requested: Partial<VNCQualitySettings>;
+  // Settings frames are currently encoded with for this client
+  quality: VNCQualitySettings;
+  lastFrameAt: number;
+  // Hash of the last captured frame the client was sent
+  lastFrameHash: string | null;
+  lastQualityCheck: number;
+  // Since the last quality check
+  framesSent: number;
+  droppedFrames: number;
+  // Moving average of the time taken to encode its tier, in ms
+  encodingTime: number;
+  needsKeyframe: boolean;
+  lastKeyframeAt: number;
+  // Tier and image of the last frame sent, which tiles are diffed against
+  lastTier: string | null;
+  lastTileFrame: Bitmap | null;
+}
+
+export interface FrameSubscription {
+  unsubscribe: () => void;
+  requestKeyframe: () => void;
+  // Apply the client's quality-update, returning the settings now in use
+  updateQuality: (quality: Partial<VNCQualitySettings>) => VNCQualitySettings;
+}
+
+/**
+ * Manages screen capture of one display, or of a region of it, for all
+ * clients viewing it.
+ * Frames are captured once and encoded once per quality tier, the set of
+ * subscribers whose adapted settings are equal.
+ * Features frame coalescing and per-client adaptive quality settings.
+ */
+export class ScreenCaptureManager {
+  private static instances = new Map<DisplaySelection, ScreenCaptureManager>();
+  private isCapturing = false;
+  private captureInterval: NodeJS.Timeout | null = null;
+
+  // Base configuration with better defaults
+  private readonly DEFAULT_QUALITY: VNCQualitySettings = {
+    width: 1440,        // Default width for good quality
+    jpegQuality: 85,    // Start with good quality
+    fps: 45,           // Target FPS
+  };
+
+  // Frame management
+  private processingFrame = false;
+  private lastFrameHash: string | null = null;
+  private lastFrameSentTime = 0;
+  private lastFrameSize = 0;
+
+  // Frame coalescing
+  private pendingFrames: CapturedFrame[] = [];
+  private coalesceTimer: NodeJS.Timeout | null = null;
+  private readonly COALESCE_MAX_WAIT = 100; // ms
+  private readonly MIN_FRAME_INTERVAL = 33;  // ~30fps cap
+
+  // Performance tracking
+  private frameProcessingTimes: number[] = [];
+  private droppedFrames = 0;
+  private framesSent = 0;
+  // Frames not sent to clients that were still behind
+  private skippedFrames = 0;
+  private tierCount = 0;
+
+  // Quality control
+  private readonly MIN_QUALITY = 80;
+  private readonly MAX_QUALITY = 90;
+  private readonly MIN_WIDTH = 1024;
+  private readonly MAX_WIDTH = 1920;
+  private readonly PERFORMANCE_CHECK_INTERVAL = 2000; // ms
+  // Frames are skipped for a client that is this far behind
+  private readonly MAX_BUFFERED_BYTES = 512 * 1024;
+  private readonly MAX_UNACKED_FRAMES = 3;
+  // Quality is lowered for a client whose acknowledgements take longer
+  private readonly MAX_LATENCY = 500; // ms
+
+  // Tile streaming
+  private readonly KEYFRAME_INTERVAL = 10000; // ms
+  // Above this share of changed tiles a full frame is smaller than the tiles
+  private readonly MAX_TILE_RATIO = 0.5;
+
+  private subscribers: FrameSubscriber[] = [];
+
+  private performanceMonitor: NodeJS.Timeout;
+
+  private constructor(
+    private readonly key: string,
+    private readonly source: DisplaySelection,
+    private readonly region: Region | null
+  ) {
+    this.performanceMonitor = this.setupPerformanceMonitoring();
+    // It only logs, so it must not keep the process alive
+    this.performanceMonitor.unref();
+  }
+
+  public static getInstance(
+    source: DisplaySelection = PRIMARY_DISPLAY,
+    region: Region | null = null
+  ): ScreenCaptureManager {
+    const key = region ? `${source}@${getRegionKey(region)}` : source;
+    let instance = ScreenCaptureManager.instances.get(key);
+    if (!instance) {
+      instance = new ScreenCaptureManager(key, source, region);
+      ScreenCaptureManager.instances.set(key, instance);
+    }
+    return instance;
+  }
+
+  private setupPerformanceMonitoring() {
+    return setInterval(() => {
+      if (!this.isCapturing) return;
+
+      const dropRate = (this.droppedFrames / (this.droppedFrames + this.framesSent)) * 100;
+      const avgFrameSize = this.lastFrameSize / 1024;
+      const avgProcessingTime = this.getAverageProcessingTime();
+
+      console.debug(
+        `Performance: FPS=${this.framesSent}, Dropped=${this.droppedFrames}, ` +
+        `Drop Rate=${dropRate.toFixed(1)}%, Size=${avgFrameSize.toFixed(1)}KB, ` +
+        `Processing=${avgProcessingTime.toFixed(1)}ms, Clients=${this.subscribers.length}, Tiers=${this.tierCount}, ` +
+        `Skipped=${this.skippedFrames}`
+      );
+
+      this.droppedFrames = 0;
+      this.framesSent = 0;
+      this.skippedFrames = 0;
+    }, 1000);
+  }
+
+  /**
+   * Subscribe to frames, encoded with the client's own quality settings.
+   * Tile subscribers get only the tiles that changed; their first update,
+   * and one every KEYFRAME_INTERVAL, is a full keyframe.
+   * @param callback
+   * @param options `getLoad` reports the client's backlog, which adapts its quality
+   */
+  public subscribe(
+    callback: (update: FrameUpdate) => void,
+    options: {
+      tiles?: boolean;
+      getLoad?: () => ClientLoad;
+      quality?: Partial<VNCQualitySettings>;
+    } = {}
+  ): FrameSubscription {
+    const subscriber: FrameSubscriber = {
+      callback,
+      tiles: options.tiles ?? false,
+      getLoad:
+        options.getLoad ??
+        (() => ({ bufferedAmount: 0, unackedFrames: null, latency: null })),
+      requested: {},
+      quality: { ...this.DEFAULT_QUALITY },
+      lastFrameAt: 0,
+      lastFrameHash: null,
+      lastQualityCheck: Date.now(),
+      framesSent: 0,
+      droppedFrames: 0,
+      encodingTime: 0,
+      needsKeyframe: true,
+      lastKeyframeAt: 0,
+      lastTier: null,
+      lastTileFrame: null,
+    };
+    this.updateQualitySettings(subscriber, options.quality ?? {});
+    this.subscribers.push(subscriber);
+    // Send the current screen even if it does not change
+    this.requestRefresh();
+    if (!this.isCapturing) {
+      this.startCaptureLoop();
+    }
+    return {
+      unsubscribe: () => {
+        this.subscribers = this.subscribers.filter((s) => s !== subscriber);
+        this.stopCaptureLoopIfUnused();
+      },
+      requestKeyframe: () => {
+        subscriber.needsKeyframe = true;
+        this.requestRefresh();
+      },
+      updateQuality: (quality) => {
+        this.updateQualitySettings(subscriber, quality);
+        return { ...subscriber.quality };
+      },
+    };
+  }
+
+  /**
+   * Process the next captured frame even if the screen has not changed.
+   */
+  public requestRefresh() {
+    this.lastFrameHash = null;
+  }
+
+  private stopCaptureLoopIfUnused() {
+    if (this.subscribers.length === 0) {
+      this.stopCaptureLoop();
+      // Clients switch between displays and zoom through many regions, so
+      // captures nobody views are not kept around
+      clearInterval(this.performanceMonitor);
+      ScreenCaptureManager.instances.delete(this.key);
+    }
+  }
+
+  private startCaptureLoop() {
+    if (this.isCapturing) return;
+    this.isCapturing = true;
+
+    const captureFrame = async () => {
+      if (!this.isCapturing) return;
+
+      const now = performance.now();
+      const timeSinceLastFrame = now - this.lastFrameSentTime;
+
+      // Skip frame if we're processing or it's too soon
+      // but keep the loop going
+      if (this.processingFrame || timeSinceLastFrame < this.MIN_FRAME_INTERVAL) {
+        this.droppedFrames++;
+      } else {
+        try {
+          const displays = await getDisplays();
+          const capturedAt = Date.now();
+          const raw = await captureDisplay(this.source, displays);
+          await this.handleNewFrame({ image: raw, capturedAt });
+        } catch (error) {
+          console.error("Capture error:", error);
+        }
+      }
+
+      // Schedule next capture with dynamic interval, fast enough for the most demanding client
+      const nextInterval = Math.max(
+        this.MIN_FRAME_INTERVAL,
+        1000 / this.getMaxFps()
+      );
+      setTimeout(captureFrame, nextInterval);
+    };
+
+    captureFrame();
+  }
+
+  private getMaxFps(): number {
+    return Math.max(
+      1,
+      ...this.subscribers.map((subscriber) => subscriber.quality.fps)
+    );
+  }
+
+  private calculateFrameHash(buffer: Buffer): string {
+    // Hash every byte: sampling missed small changes, such as a moved
+    // cursor, that leave the size of the encoded frame unchanged
+    return crypto.createHash("md5").update(buffer).digest("hex");
+  }
+
+  private async handleNewFrame(frame: CapturedFrame) {
+    const frameHash = this.calculateFrameHash(frame.image);
+    // An unchanged screen is only sent on to clients still waiting for it
+    const isPending = this.pendingFrames.length > 0;
+    if (frameHash === this.lastFrameHash && (isPending || !this.isAwaited(frameHash))) {
+      this.droppedFrames++;
+      return;
+    }
+
+    this.lastFrameHash = frameHash;
+    this.pendingFrames.push(frame);
+
+    // Start coalescing timer if not already running
+    if (!this.coalesceTimer) {
+      this.coalesceTimer = setTimeout(() => {
+        this.processCoalescedFrames();
+      }, this.COALESCE_MAX_WAIT);
+    }
+  }
+
+  /**
+   * Whether a client that skipped this frame for its frame rate can now
+   * take it, so that it still gets the screen once the screen stops changing.
+   */
+  private isAwaited(frameHash: string): boolean {
+    const now = Date.now();
+    return this.subscribers.some(
+      (subscriber) =>
+        subscriber.lastFrameHash !== frameHash &&
+        now - subscriber.lastFrameAt >= 1000 / subscriber.quality.fps
+    );
+  }
+
+  private async processCoalescedFrames() {
+    if (this.pendingFrames.length === 0 || this.processingFrame) return;
+
+    this.processingFrame = true;
+    this.coalesceTimer = null;
+
+    // Process most recent frame
+    const frame = this.pendingFrames[this.pendingFrames.length - 1];
+    this.pendingFrames = [];
+
+    try {
+      const startTime = performance.now();
+      const now = Date.now();
+      const due = this.getDueSubscribers(this.calculateFrameHash(frame.image), now);
+      this.subscribers.forEach((subscriber) => this.adjustQualityIfNeeded(subscriber));
+      if (due.length === 0) return;
+
+      const image = await this.processFrame(frame.image);
+      const tiers = new Map<string, FrameSubscriber[]>();
+      for (const subscriber of due) {
+        const key = this.getTierKey(subscriber.quality);
+        tiers.set(key, [...(tiers.get(key) ?? []), subscriber]);
+      }
+      const updates: Array<[FrameSubscriber, FrameUpdate]> = [];
+      for (const [key, subscribers] of tiers) {
+        const tierStartTime = performance.now();
+        updates.push(
+          ...(await this.prepareTierUpdates(image, frame.capturedAt, key, subscribers, now))
+        );
+        // Only what its own settings cost counts against a client's quality
+        const encodingTime = performance.now() - tierStartTime;
+        subscribers.forEach((subscriber) => {
+          subscriber.encodingTime = subscriber.encodingTime * 0.8 + encodingTime * 0.2;
+        });
+      }
+      const processingTime = performance.now() - startTime;
+
+      this.updatePerformanceMetrics(processingTime);
+
+      this.framesSent++;
+      this.tierCount = tiers.size;
+      this.lastFrameSentTime = performance.now();
+
+      // Notify subscribers
+      updates.forEach(([subscriber, update]) => subscriber.callback(update));
+    } catch (error) {
+      console.error("Frame processing error:", error);
+    } finally {
+      this.processingFrame = false;
+
+      // Process any frames that arrived during processing
+      if (this.pendingFrames.length > 0) {
+        this.coalesceTimer = setTimeout(() => {
+          this.processCoalescedFrames();
+        }, Math.min(this.COALESCE_MAX_WAIT, this.MIN_FRAME_INTERVAL));
+      }
+    }
+  }
+
+  /**
+   * Subscribers to send a frame to. Clients that were already sent it, want
+   * fewer frames per second or have not taken earlier frames off their
+   * socket skip it, so that a slow client does not build up latency.
+   */
+  private getDueSubscribers(frameHash: string, now: number): FrameSubscriber[] {
+    const unseen = this.subscribers.filter(
+      (subscriber) =>
+        subscriber.needsKeyframe || subscriber.lastFrameHash !== frameHash
+    );
+    let backedUp = false;
+    const due = unseen.filter((subscriber) => {
+      if (now - subscriber.lastFrameAt < 1000 / subscriber.quality.fps) {
+        return false;
+      }
+      const load = subscriber.getLoad();
+      if (load.bufferedAmount > this.MAX_BUFFERED_BYTES ||
+          (load.unackedFrames ?? 0) >= this.MAX_UNACKED_FRAMES) {
+        subscriber.droppedFrames++;
+        this.skippedFrames++;
+        backedUp = true;
+        return false;
+      }
+      return true;
+    });
+    if (backedUp) {
+      // Make sure they still get the latest screen once they can take it
+      this.requestRefresh();
+    }
+    due.forEach((subscriber) => (subscriber.lastFrameHash = frameHash));
+    return due;
+  }
+
+  private async processFrame(frame: Buffer): Promise<FrameImage> {
+    const image = await jimp.createImage(frame);
+
+    if (this.region) {
+      const crop = getRegionPixels(image.width, image.height, this.region);
+      image.crop({ x: crop.x, y: crop.y, w: crop.width, h: crop.height });
+    }
+
+    return image;
+  }
+
+  private getTierKey(quality: VNCQualitySettings): string {
+    return `${quality.width}@${quality.jpegQuality}`;
+  }
+
+  /**
+   * Scale the frame for one quality tier and work out what each of its
+   * subscribers needs. The full frame and each changed tile are encoded at
+   * most once, however many subscribers need them.
+   */
+  private async prepareTierUpdates(
+    frame: FrameImage,
+    capturedAt: number,
+    tier: string,
+    subscribers: FrameSubscriber[],
+    now: number
+  ): Promise<Array<[FrameSubscriber, FrameUpdate]>> {
+    const settings = subscribers[0].quality;
+    const encodingTime = subscribers[0].encodingTime;
+    const dimensions = this.getScaledDimensions(frame, settings.width);
+    let image = frame;
+    // Resize if needed, leaving the frame intact for other tiers
+    if (image.width !== dimensions.width || image.height !== dimensions.height) {
+      const resizeMode = encodingTime > this.MIN_FRAME_INTERVAL * 0.8
+        ? ResizeStrategy.NEAREST_NEIGHBOR  // Faster but lower quality
+        : ResizeStrategy.BILINEAR;         // Better quality
+
+      image = frame.clone();
+      image.resize({
+        w: dimensions.width,
+        h: dimensions.height,
+        mode: resizeMode,
+      });
+    }
+
+    const quality = this.getFrameQuality(settings.jpegQuality, encodingTime);
+    let fullFrame: Promise<Buffer> | null = null;
+    const encodeFullFrame = async () => {
+      fullFrame ??= this.encodeFrame(image, quality);
+      const encoded = await fullFrame;
+      this.lastFrameSize = encoded.length;
+      return encoded;
+    };
+
+    const bitmap: Bitmap = {
+      data: image.bitmap.data,
+      width: image.width,
+      height: image.height,
+    };
+    const rects = getTileRects(bitmap.width, bitmap.height);
+    // Subscribers that were sent the same previous frame share its diff
+    const diffs = new Map<Bitmap, number[]>();
+    const encodedTiles = new Map<number, Promise<EncodedTile>>();
+    const encodeTile = (index: number) => {
+      if (!encodedTiles.has(index)) {
+        encodedTiles.set(
+          index,
+          jimp
+            .encodeJpeg(cropBitmap(bitmap, rects[index]), quality)
+            .then((encoded) => ({ ...rects[index], image: encoded }))
+        );
+      }
+      return encodedTiles.get(index)!;
+    };
+
+    const updates: Array<[FrameSubscriber, FrameUpdate]> = [];
+    for (const subscriber of subscribers) {
+      const previous = subscriber.lastTier === tier ? subscriber.lastTileFrame : null;
+      let changed: number[] | null = null;
+      if (subscriber.tiles && previous) {
+        changed = diffs.get(previous) ?? findChangedTiles(previous, bitmap);
+        diffs.set(previous, changed);
+      }
+
+      if (
+        !changed ||
+        changed.length > rects.length * this.MAX_TILE_RATIO ||
+        subscriber.needsKeyframe ||
+        now - subscriber.lastKeyframeAt >= this.KEYFRAME_INTERVAL
+      ) {
+        subscriber.needsKeyframe = false;
+        subscriber.lastKeyframeAt = now;
+        updates.push([
+          subscriber,
+          { keyframe: true, image: await encodeFullFrame(), dimensions, capturedAt },
+        ]);
+      } else if (changed.length > 0) {
+        const tiles = await Promise.all(changed.map(encodeTile));
+        updates.push([subscriber, { keyframe: false, tiles, dimensions, capturedAt }]);
+      } else {
+        continue;
+      }
+      subscriber.lastFrameAt = now;
+      subscriber.framesSent++;
+      subscriber.lastTier = tier;
+      subscriber.lastTileFrame = subscriber.tiles ? bitmap : null;
+    }
+    return updates;
+  }
+
+  private getFrameQuality(jpegQuality: number, encodingTime: number): number {
+    // Adjust quality based on motion, which makes frames slow to encode
+    return encodingTime > this.MIN_FRAME_INTERVAL * 0.7
+      ? Math.max(this.MIN_QUALITY, jpegQuality - 10)
+      : jpegQuality;
+  }
+
+  private encodeFrame(image: FrameImage, quality: number): Promise<Buffer> {
+    return image.getBuffer("image/jpeg", {
+      quality,
+      progressive: false,
+      chromaSubsampling: true,
+      fastEntropy: true,
+    });
+  }
+
+  private updatePerformanceMetrics(processingTime: number) {
+    this.frameProcessingTimes.push(processingTime);
+    if (this.frameProcessingTimes.length > 30) {
+      this.frameProcessingTimes.shift();
+    }
+  }
+
+  private getAverageProcessingTime(): number {
+    if (this.frameProcessingTimes.length === 0) return 0;
+    return (
+      this.frameProcessingTimes.reduce((a, b) => a + b, 0) /
+      this.frameProcessingTimes.length
+    );
+  }
+
+  /**
+   * Adapt one client's settings to how fast frames are encoded with them,
+   * and to how many frames that client had to skip and how late it
+   * acknowledges them. Other clients' settings and backlogs do not count.
+   */
+  private adjustQualityIfNeeded(subscriber: FrameSubscriber) {
+    const now = Date.now();
+    if (now - subscriber.lastQualityCheck < this.PERFORMANCE_CHECK_INTERVAL) return;
+
+    const { encodingTime } = subscriber;
+    const clientDropRate =
+      subscriber.droppedFrames /
+      Math.max(1, subscriber.droppedFrames + subscriber.framesSent);
+    const load = subscriber.getLoad();
+    const latency = load.latency ?? 0;
+    const { quality, requested } = subscriber;
+
+    if (
+      clientDropRate > 0.2 ||
+      latency > this.MAX_LATENCY ||
+      encodingTime > this.MIN_FRAME_INTERVAL
+    ) {
+      // Reduce quality more aggressively when falling behind
+      quality.jpegQuality = Math.max(
+        this.MIN_QUALITY,
+        quality.jpegQuality - 5
+      );
+      quality.width = Math.max(
+        this.MIN_WIDTH,
+        quality.width - 128
+      );
+    }
+    else if (
+      clientDropRate < 0.05 &&
+      latency < this.MAX_LATENCY / 2 &&
+      load.bufferedAmount === 0 &&
+      encodingTime < this.MIN_FRAME_INTERVAL * 0.5
+    ) {
+      // Gradually improve quality when performance is good, up to what the client asked for
+      quality.jpegQuality = Math.min(
+        requested.jpegQuality ?? this.MAX_QUALITY,
+        quality.jpegQuality + 1
+      );
+      quality.width = Math.min(
+        requested.width ?? this.MAX_WIDTH,
+        quality.width + 64
+      );
+    }
+
+    subscriber.lastQualityCheck = now;
+    subscriber.framesSent = 0;
+    subscriber.droppedFrames = 0;
+  }
+
+  /**
+   * Size to send a captured frame at. Its shape comes from the frame itself,
+   * since displays differ in shape and the desktop spans all of them.
+   */
+  private getScaledDimensions(source: FrameDimensions, targetWidth: number) {
+    const { width: realWidth, height: realHeight } = source;
+    // Never upscale, so that zooming into a region streams real pixels
+    const width = Math.min(targetWidth, realWidth);
+    const height = Math.floor(width * (realHeight / realWidth));
+    return { width, height };
+  }
+
+  private updateQualitySettings(
+    subscriber: FrameSubscriber,
+    quality: Partial<VNCQualitySettings>
+  ) {
+    let changed = false;
+
+    if (quality.width !== undefined &&
+        quality.width >= this.MIN_WIDTH &&
+        quality.width <= this.MAX_WIDTH) {
+      subscriber.requested.width = quality.width;
+      subscriber.quality.width = quality.width;
+      changed = true;
+    }
+
+    if (quality.jpegQuality !== undefined &&
+        quality.jpegQuality >= this.MIN_QUALITY &&
+        quality.jpegQuality <= this.MAX_QUALITY) {
+      subscriber.requested.jpegQuality = quality.jpegQuality;
+      subscriber.quality.jpegQuality = quality.jpegQuality;
+      changed = true;
+    }
+
+    if (quality.fps !== undefined &&
+        quality.fps >= 1 &&
+        quality.fps <= 60) {
+      subscriber.requested.fps = quality.fps;
+      subscriber.quality.fps = quality.fps;
+      changed = true;
+    }
+
+    if (changed) {
+      // Give the new settings time before adapting them
+      subscriber.lastQualityCheck = Date.now();
+    }
+  }
+
+  private resetPerformanceMetrics() {
+    this.frameProcessingTimes = [];
+    this.droppedFrames = 0;
+    this.framesSent = 0;
+  }
+
+  private stopCaptureLoop() {
+    if (this.captureInterval) {
+      clearInterval(this.captureInterval);
+      this.captureInterval = null;
+    }
+    if (this.coalesceTimer) {
+      clearTimeout(this.coalesceTimer);
+      this.coalesceTimer = null;
+    }
+    this.isCapturing = false;
+    this.lastFrameHash = null;
+    this.pendingFrames = [];
+    this.resetPerformanceMetrics();
+  }
+}
@@ -0,0 +1,82 @@
+import { Rect } from "./displays";
+
+/**
+ * Part of a display to stream, as fractions of its width and height so that
+ * it holds across resolutions and HiDPI scaling. Clients zoom in by
+ * streaming a smaller region rather than upscaling the whole screen.
+ */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Smallest region edge, so that a crop never collapses to nothing
+const MIN_REGION_SIZE = 0.01;
+// Tolerance for regions that end at the display edge, e.g. 0.1 + 0.9
+const EPSILON = 1e-9;
+
+export function isValidRegion(value: unknown): value is Region {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { x, y, width, height } = value as Record<string, unknown>;
+  return (
+    [x, y, width, height].every(
+      (n) => typeof n === "number" && Number.isFinite(n)
+    ) &&
+    (x as number) >= 0 &&
+    (y as number) >= 0 &&
+    (width as number) >= MIN_REGION_SIZE &&
+    (height as number) >= MIN_REGION_SIZE &&
+    (x as number) + (width as number) <= 1 + EPSILON &&
+    (y as number) + (height as number) <= 1 + EPSILON
+  );
+}
+
+/**
+ * The part of a rectangle a region covers, e.g. to map mouse input into a crop.
+ * @param rect
+ * @param region
+ */
+export function applyRegion(rect: Rect, region: Region): Rect {
+  return {
+    x: rect.x + region.x * rect.width,
+    y: rect.y + region.y * rect.height,
+    width: region.width * rect.width,
+    height: region.height * rect.height,
+  };
+}
+
+/**
+ * Whole pixels of an image a region covers, at least one in each direction.
+ * @param width image width
+ * @param height image height
+ * @param region
+ */
+export function getRegionPixels(
+  width: number,
+  height: number,
+  region: Region
+): Rect {
+  const x = Math.min(width - 1, Math.round(region.x * width));
+  const y = Math.min(height - 1, Math.round(region.y * height));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(region.width * width))),
+    height: Math.max(
+      1,
+      Math.min(height - y, Math.round(region.height * height))
+    ),
+  };
+}
+
+/**
+ * Stable key of a region, for sharing a capture between clients streaming it.
+ * @param region
+ */
+export function getRegionKey(region: Region): string {
+  return [region.x, region.y, region.width, region.height].join(",");
+}
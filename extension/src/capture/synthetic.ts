@@ -0,0 +1,105 @@
+import { Jimp } from "jimp";
+import { CaptureBackend } from "./backend";
+import { RawDisplay } from "./displays";
+import { TILE_SIZE } from "./tiles";
+
+export interface SyntheticCaptureOptions {
+  // Displays to report, one 640x360 primary display by default
+  displays?: RawDisplay[];
+  // Move to the next frame on every grab, like a screen that never stops changing
+  animate?: boolean;
+}
+
+// Neutral grays, so that JPEG chroma subsampling cannot bleed into other tiles
+const BACKGROUND = 0x404040ff;
+const MARKER = 0xe0e0e0ff;
+
+/**
+ * Deterministic frames for running the capture pipeline without a desktop,
+ * e.g. in tests. A frame is a plain background with a marker filling one
+ * tile, which moves to the next tile with every frame, so that consecutive
+ * frames differ in exactly two tiles.
+ */
+export class SyntheticCaptureBackend implements CaptureBackend {
+  private readonly displays: RawDisplay[];
+  private frame = 0;
+  // Frames captured so far, across displays
+  public grabCount = 0;
+
+  constructor(private readonly options: SyntheticCaptureOptions = {}) {
+    this.displays = options.displays ?? [
+      {
+        id: "synthetic",
+        name: "Synthetic display",
+        primary: true,
+        width: 640,
+        height: 360,
+        offsetX: 0,
+        offsetY: 0,
+      },
+    ];
+  }
+
+  public async listDisplays(): Promise<RawDisplay[]> {
+    return this.displays.map((display) => ({ ...display }));
+  }
+
+  public getScreenSize() {
+    const { width = 0, height = 0 } = this.getPrimaryDisplay();
+    return { width, height };
+  }
+
+  public async grab(options: {
+    format: "jpg" | "png";
+    screen?: string | number;
+  }): Promise<Buffer> {
+    const display =
+      options.screen === undefined
+        ? this.getPrimaryDisplay()
+        : this.displays.find((d) => d.id === options.screen);
+    if (!display?.width || !display.height) {
+      throw new Error(`Unknown display: ${options.screen}`);
+    }
+    const image = this.render(
+      display.width,
+      display.height,
+      this.frame + this.displays.indexOf(display)
+    );
+    this.grabCount++;
+    if (this.options.animate) {
+      this.frame++;
+    }
+    return options.format === "png"
+      ? image.getBuffer("image/png")
+      : image.getBuffer("image/jpeg", { quality: 90 });
+  }
+
+  /**
+   * Move on to the next frame, changing the screen.
+   */
+  public advance() {
+    this.frame++;
+  }
+
+  private getPrimaryDisplay(): RawDisplay {
+    return this.displays.find((display) => display.primary) ?? this.displays[0];
+  }
+
+  private render(width: number, height: number, frame: number) {
+    const image = new Jimp({ width, height, color: BACKGROUND });
+    const columns = Math.ceil(width / TILE_SIZE);
+    const tiles = columns * Math.ceil(height / TILE_SIZE);
+    const tile = frame % tiles;
+    const marker = new Jimp({
+      width: TILE_SIZE,
+      height: TILE_SIZE,
+      color: MARKER,
+    });
+    image.composite(
+      marker,
+      (tile % columns) * TILE_SIZE,
+      Math.floor(tile / columns) * TILE_SIZE
+    );
+    return image;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Splitting decoded frames into a grid of tiles and finding the tiles that
+ * changed, so that only dirty regions of the screen are re-sent.
+ */
+
+export const TILE_SIZE = 64; // px
+
+/**
+ * Raw RGBA pixels, as held by a decoded Jimp image.
+ */
+export interface Bitmap {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Cover a frame with tiles, row by row. Tiles on the right and bottom edges
+ * are smaller when the frame size is not a multiple of the tile size.
+ * @param width
+ * @param height
+ * @param tileSize
+ */
+export function getTileRects(
+  width: number,
+  height: number,
+  tileSize = TILE_SIZE
+): TileRect[] {
+  const rects: TileRect[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      rects.push({
+        x,
+        y,
+        width: Math.min(tileSize, width - x),
+        height: Math.min(tileSize, height - y),
+      });
+    }
+  }
+  return rects;
+}
+
+/**
+ * Indices, into `getTileRects`, of the tiles whose pixels differ between two frames.
+ * Every tile counts as changed when the frame size changed.
+ * @param previous
+ * @param current
+ * @param tileSize
+ */
+export function findChangedTiles(
+  previous: Bitmap,
+  current: Bitmap,
+  tileSize = TILE_SIZE
+): number[] {
+  const rects = getTileRects(current.width, current.height, tileSize);
+  if (previous.width !== current.width || previous.height !== current.height) {
+    return rects.map((_, index) => index);
+  }
+
+  const stride = current.width * 4;
+  const changed: number[] = [];
+  rects.forEach((rect, index) => {
+    for (let row = rect.y; row < rect.y + rect.height; row++) {
+      const start = row * stride + rect.x * 4;
+      const end = start + rect.width * 4;
+      if (current.data.compare(previous.data, start, end, start, end) !== 0) {
+        changed.push(index);
+        return;
+      }
+    }
+  });
+  return changed;
+}
+
+/**
+ * Copy a rectangle out of a bitmap.
+ * @param bitmap
+ * @param rect
+ */
+export function cropBitmap(bitmap: Bitmap, rect: TileRect): Bitmap {
+  const stride = bitmap.width * 4;
+  const rowLength = rect.width * 4;
+  const data = Buffer.alloc(rowLength * rect.height);
+  for (let row = 0; row < rect.height; row++) {
+    const start = (rect.y + row) * stride + rect.x * 4;
+    bitmap.data.copy(data, row * rowLength, start, start + rowLength);
+  }
+  return { data, width: rect.width, height: rect.height };
+}
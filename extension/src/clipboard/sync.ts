@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+
+// How often the desktop clipboard is read while clients watch it. VS Code has
+// no event for clipboard changes, so they are found by polling.
+const POLL_INTERVAL_MS = 1000;
+
+export type ClipboardListener = (text: string) => void;
+
+const listeners = new Set<ClipboardListener>();
+let pollTimer: NodeJS.Timeout | null = null;
+// Text last seen on or put on the clipboard, or null before the first read
+let lastText: string | null = null;
+let polling = false;
+// Actions holding text on the clipboard that watchers must not be told about
+let borrowers = 0;
+
+export function readClipboard(): Thenable<string> {
+  return vscode.env.clipboard.readText();
+}
+
+/**
+ * Put text on the desktop clipboard and tell the other watchers about it.
+ * @param text
+ * @param from watcher of the client that sent the text, which already has it
+ */
+export async function writeClipboard(text: string, from?: ClipboardListener) {
+  await vscode.env.clipboard.writeText(text);
+  lastText = text;
+  for (const listener of listeners) {
+    if (listener !== from) {
+      listener(text);
+    }
+  }
+}
+
+/**
+ * Put text on the clipboard for the duration of an action, e.g. to paste it,
+ * then restore what was there. Watchers are not told about the borrowed text.
+ * @param text
+ * @param action
+ */
+export async function borrowClipboard(
+  text: string,
+  action: () => Promise<void>
+) {
+  borrowers++;
+  try {
+    const previous = await readClipboard();
+    await vscode.env.clipboard.writeText(text);
+    try {
+      await action();
+    } finally {
+      await vscode.env.clipboard.writeText(previous);
+    }
+  } finally {
+    borrowers--;
+  }
+}
+
+/**
+ * Call a listener with the clipboard text whenever it changes, until the
+ * returned function is called.
+ * @param listener
+ */
+export function watchClipboard(listener: ClipboardListener): () => void {
+  listeners.add(listener);
+  if (!pollTimer) {
+    lastText = null;
+    pollTimer = setInterval(() => void pollClipboard(), POLL_INTERVAL_MS);
+    pollTimer.unref();
+    void pollClipboard();
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  };
+}
+
+async function pollClipboard() {
+  if (polling || borrowers > 0) return;
+  polling = true;
+  try {
+    const text = await readClipboard();
+    // The first read only sets what later reads are compared with
+    if (lastText !== null && text !== lastText && borrowers === 0) {
+      for (const listener of listeners) {
+        listener(text);
+      }
+    }
+    if (borrowers === 0) {
+      lastText = text;
+    }
+  } catch (error) {
+    console.error("Error reading the clipboard:", error);
+  } finally {
+    polling = false;
+  }
+}
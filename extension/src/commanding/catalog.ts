@@ -0,0 +1,222 @@
+import * as vscode from "vscode";
+import { BuiltInCommands, CustomCommandName, CustomCommands } from "./commands";
+import { describePattern, getSlots, Slot } from "./grammar";
+import { getMacros } from "./macros";
+
+/**
+ * A command offered in the phone's palette.
+ */
+export interface CatalogEntry {
+  // VS Code command id, run with `run-command`. Custom commands and macros
+  // have none and are run by sending their title, with any slots filled in,
+  // as a `command`.
+  command?: string;
+  title: string;
+  category: string;
+  // Shortcut on this platform, when an extension contributes one
+  keybinding?: string;
+  // Where the title comes from: the static table, AirCodum's custom
+  // commands, a macro, an extension's contributions, or only the command id
+  source: "builtin" | "custom" | "macro" | "extension" | "vscode";
+  // What to fill in, for custom commands that take arguments; the title
+  // shows each slot as [name]
+  slots?: Slot[];
+}
+
+interface ContributedCommand {
+  command: string;
+  title?: string;
+  category?: string;
+}
+
+interface ContributedKeybinding {
+  command: string;
+  key?: string;
+  mac?: string;
+  linux?: string;
+  win?: string;
+}
+
+// AirCodum's own commands, which manage pairing, the server and recordings
+const OWN_COMMAND = /^extension\..*AirCodum/;
+
+// Categories of commands that have none, by id prefix; the first match wins
+const CATEGORY_PREFIXES: [string, string][] = [
+  ["workbench.action.terminal.", "Terminal"],
+  ["workbench.action.debug.", "Debug"],
+  ["workbench.debug.", "Debug"],
+  ["workbench.action.tasks.", "Tasks"],
+  ["workbench.action.files.", "File"],
+  ["workbench.files.", "File"],
+  ["filesExplorer.", "File"],
+  ["workbench.action.findInFiles", "Search"],
+  ["search.", "Search"],
+  ["git.", "Git"],
+  ["notebook.", "Notebook"],
+  ["editor.action.", "Editor"],
+  ["editor.", "Editor"],
+  ["cursor", "Editor"],
+  ["workbench.action.", "View"],
+  ["workbench.", "View"],
+];
+
+function categorize(command: string): string {
+  return (
+    CATEGORY_PREFIXES.find(([prefix]) => command.startsWith(prefix))?.[1] ??
+    "Other"
+  );
+}
+
+/**
+ * Readable title for a command without one, e.g. "Toggle Sidebar Visibility"
+ * for "workbench.action.toggleSidebarVisibility".
+ * @param command
+ */
+export function titleFromId(command: string): string {
+  const name = command.slice(command.lastIndexOf(".") + 1);
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .replace(/^./, (first) => first.toUpperCase());
+}
+
+// Contributed strings can be placeholders for translations, which are not
+// resolved in packageJSON
+function isLocalized(text: unknown): text is string {
+  return typeof text === "string" && !/^%.+%$/.test(text);
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function platformKey(keybinding: ContributedKeybinding): string | undefined {
+  switch (process.platform) {
+    case "darwin":
+      return keybinding.mac ?? keybinding.key;
+    case "linux":
+      return keybinding.linux ?? keybinding.key;
+    case "win32":
+      return keybinding.win ?? keybinding.key;
+    default:
+      return keybinding.key;
+  }
+}
+
+/**
+ * Every command that can be run in this VS Code instance: the custom
+ * commands and macros, the static table, commands contributed by installed
+ * extensions with their titles and shortcuts, and the remaining registered
+ * commands. Commands of the static
+ * table that this VS Code version lacks are left out.
+ */
+export async function getCommandCatalog(): Promise<CatalogEntry[]> {
+  const registered = new Set(await vscode.commands.getCommands(true));
+  const entries = new Map<string, CatalogEntry>();
+  const keybindings = new Map<string, string>();
+
+  for (const extension of vscode.extensions.all) {
+    const contributes = extension.packageJSON?.contributes ?? {};
+    const extensionName = isLocalized(extension.packageJSON?.displayName)
+      ? extension.packageJSON.displayName
+      : extension.id;
+    for (const binding of asArray<ContributedKeybinding>(
+      contributes.keybindings
+    )) {
+      const key = platformKey(binding);
+      if (binding.command && key && !keybindings.has(binding.command)) {
+        keybindings.set(binding.command, key);
+      }
+    }
+    for (const contributed of asArray<ContributedCommand>(
+      contributes.commands
+    )) {
+      if (
+        !registered.has(contributed.command) ||
+        OWN_COMMAND.test(contributed.command)
+      ) {
+        continue;
+      }
+      entries.set(contributed.command, {
+        command: contributed.command,
+        title: isLocalized(contributed.title)
+          ? contributed.title
+          : titleFromId(contributed.command),
+        category: isLocalized(contributed.category)
+          ? contributed.category
+          : extensionName,
+        source: "extension",
+      });
+    }
+  }
+
+  // The static table's names are the ones `command` messages and the
+  // command matcher understand, so they take precedence
+  for (const [title, command] of Object.entries(BuiltInCommands)) {
+    const contributed = entries.get(command);
+    // Of several names for one command, the first is listed
+    if (!registered.has(command) || contributed?.source === "builtin") {
+      continue;
+    }
+    entries.set(command, {
+      command,
+      title,
+      category: contributed?.category ?? categorize(command),
+      source: "builtin",
+    });
+  }
+
+  for (const command of registered) {
+    if (!entries.has(command) && !OWN_COMMAND.test(command)) {
+      entries.set(command, {
+        command,
+        title: titleFromId(command),
+        category: categorize(command),
+        source: "vscode",
+      });
+    }
+  }
+
+  const commands = [...entries.entries()]
+    .map(([command, entry]) => {
+      const keybinding = keybindings.get(command);
+      return keybinding ? { ...entry, keybinding } : entry;
+    })
+    .sort(
+      (a, b) =>
+        a.category.localeCompare(b.category) || a.title.localeCompare(b.title)
+    );
+  const custom = Object.entries(CustomCommands).map(([name, pattern]) => {
+    const slots = getSlots(name as CustomCommandName);
+    const entry: CatalogEntry = {
+      title: describePattern(pattern),
+      category: "AirCodum",
+      source: "custom",
+    };
+    return slots.length > 0 ? { ...entry, slots } : entry;
+  });
+  const macros: CatalogEntry[] = getMacros().map((macro) => ({
+    title: macro.name,
+    category: "Macros",
+    source: "macro",
+  }));
+  return [...custom, ...macros, ...commands];
+}
+
+/**
+ * Run a command from the catalog by its id.
+ * @param command
+ * @throws when no such command is registered, it is internal, or it is one
+ * of AirCodum's own
+ */
+export async function runCatalogCommand(command: string) {
+  if (OWN_COMMAND.test(command)) {
+    throw new Error(`${command} cannot be run from a device`);
+  }
+  // Internal commands, whose ids start with an underscore, are filtered out
+  const registered = await vscode.commands.getCommands(true);
+  if (!registered.includes(command)) {
+    throw new Error(`Unknown command: ${command}`);
+  }
+  await vscode.commands.executeCommand(command);
+}
@@ -1,106 +1,152 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import * as WebSocket from "ws";
-import { BuiltInCommands, Commands } from "./commands";
+import { BuiltInCommands, CustomCommandName } from "./commands";
+import { parseCustomCommand, SlotValue } from "./grammar";
+import { findMacro, runMacro } from "./macros";
 import { RobotJSCommandHandlers } from "./robotjs-handlers";
 import { chatWithOpenAI } from "../ai/api";
 import { getApiKey } from "../ai/utils";
 import { takeAndSendScreenshot } from "./screenshot-handler";
 import { store } from "../state/store";
+import { DisplaySelection, PRIMARY_DISPLAY } from "../capture/displays";
+
+/**
+ * What a command produced, sent back to clients that asked for a response.
+ * Commands that only act on the editor have no result.
+ */
+export type CommandResult = { response: string } | undefined;
+
+type CustomCommandHandler = (
+  args: Record<string, SlotValue>,
+  ws: WebSocket,
+  display: DisplaySelection
+) => unknown;
+
+/**
+ * What each custom command does with its parsed arguments; see
+ * CustomCommands for the patterns they are said with.
+ */
+const CustomCommandHandlers: Record<CustomCommandName, CustomCommandHandler> = {
+  screenshot: (_args, ws, display) => takeAndSendScreenshot(ws, display),
+  typeAndEnter: ({ text }) =>
+    RobotJSCommandHandlers.typeAndEnter(text as string),
+  type: ({ text }) => RobotJSCommandHandlers.type(text as string),
+  keytap: ({ key }) => RobotJSCommandHandlers.keytap(key as string),
+  goToLine: ({ line }) => goToLine(line as number),
+  goToSymbol: ({ symbol }) => goToSymbol(symbol as string),
+  openFile: ({ file }) => openFile(file as string),
+  search: ({ query }) => RobotJSCommandHandlers.search(query as string),
+  replace: ({ query, replacement }) =>
+    RobotJSCommandHandlers.replace(query as string, replacement as string),
+};
+
+function goToLine(line: number) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    throw new Error("No active editor");
+  }
+  const position = new vscode.Position(Math.max(line - 1, 0), 0);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(new vscode.Range(position, position));
+}
+
+/**
+ * Open the definition of a workspace symbol. A qualified name like
+ * `Server.start` picks the symbol whose container is `Server`.
+ * @param symbol
+ */
+async function goToSymbol(symbol: string) {
+  const name = symbol.slice(symbol.lastIndexOf(".") + 1);
+  const container = symbol.includes(".")
+    ? symbol.slice(0, symbol.lastIndexOf("."))
+    : undefined;
+  const symbols =
+    (await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+      "vscode.executeWorkspaceSymbolProvider",
+      name
+    )) ?? [];
+  const matches = symbols.filter(
+    (candidate) =>
+      candidate.name === name &&
+      (!container || candidate.containerName === container)
+  );
+  const target = matches[0];
+  if (!target) {
+    throw new Error(`No symbol named ${symbol}`);
+  }
+  const doc = await vscode.workspace.openTextDocument(target.location.uri);
+  const editor = await vscode.window.showTextDocument(doc);
+  const start = target.location.range.start;
+  editor.selection = new vscode.Selection(start, start);
+  editor.revealRange(target.location.range);
+}
+
+/**
+ * Open a file, given its absolute path or one relative to the workspace.
+ * @param file
+ */
+async function openFile(file: string) {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const resolved =
+    path.isAbsolute(file) || !root ? file : path.join(root, file);
+  const doc = await vscode.workspace.openTextDocument(resolved);
+  await vscode.window.showTextDocument(doc);
+}
 
 /**
  * Handle a command received from the WebSocket connection.
  * Uses appropriate VS Code APIs and external libraries to execute the command.
  * @param command
  * @param ws
- * @returns
+ * @param display display the client is viewing, captured by "get screenshot"
+ * @returns the AI reply when the command was treated as a chat prompt
+ * @throws CommandParseError when a custom command's arguments do not fit
+ * its pattern, MacroError when a step of a macro fails, or an error when
+ * the command is unknown or fails
  */
 export async function handleCommand(
-  command: keyof typeof Commands,
-  ws: WebSocket
-) {
+  command: string,
+  ws: WebSocket,
+  display: DisplaySelection = PRIMARY_DISPLAY
+): Promise<CommandResult> {
   console.log("Received command:", command);
   // Execute BuiltInCommands via VS Code API
   if (Object.keys(BuiltInCommands).includes(command)) {
-    vscode.commands.executeCommand(
+    await vscode.commands.executeCommand(
       BuiltInCommands[command as keyof typeof BuiltInCommands]
     );
     return;
   }
 
-  // The commands below are those that involve extracting entities from the command string
-  if (command.toLowerCase().startsWith("type ")) {
-    const text = command.slice(5);
-    if (command.endsWith(" and enter")) {
-      RobotJSCommandHandlers.typeAndEnter(text.slice(0, -10));
-    } else {
-      RobotJSCommandHandlers.type(text);
-    }
-    return;
-  }
-
-  if (command.toLowerCase().startsWith("keytap ")) {
-    const key = command.slice(7).trim() as keyof typeof RobotJSCommandHandlers;
-    if (RobotJSCommandHandlers[key]) {
-      RobotJSCommandHandlers[key]();
-    } else {
-      console.warn("Unhandled keytap command:", key);
-    }
-    return;
-  }
-
-  if (command.toLowerCase().startsWith("search ")) {
-    const query = command.slice(7);
-    RobotJSCommandHandlers.search(query);
+  // Macros defined in the settings or the workspace, by name
+  const macro = findMacro(command);
+  if (macro) {
+    await runMacro(macro);
     return;
   }
 
-  if (command.toLowerCase().startsWith("replace ")) {
-    const [query, replacement] = command.slice(8).split(" with ");
-    console.log("query", query);
-    console.log("replacement", replacement);
-    RobotJSCommandHandlers.replace(query, replacement);
+  // Custom commands, with their arguments parsed out of the text
+  const parsed = parseCustomCommand(command);
+  if (parsed) {
+    await CustomCommandHandlers[parsed.name](parsed.args, ws, display);
     return;
   }
 
-  if (command.toLowerCase().startsWith("go to line")) {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor) return;
-    const lineNumber = parseInt(command.slice(10));
-    if (!isNaN(lineNumber)) {
-      const position = new vscode.Position(lineNumber - 1, 0);
-      editor.selection = new vscode.Selection(position, position);
-      editor.revealRange(new vscode.Range(position, position));
-      return;
-    }
-  }
-
-  if (command.toLowerCase().startsWith("open file")) {
-    const file = command.slice(10);
-    vscode.workspace.openTextDocument(file).then((doc) => {
-      vscode.window.showTextDocument(doc);
-    });
-    return;
-  }
   const panel = store.getState().webview.panel;
-  // Handle any custom commands below
-  switch (command) {
-    case "get screenshot":
-      await takeAndSendScreenshot(ws);
-      break;
-    default:
-      console.warn("Unhandled command:", command);
-      try {
-        const response = await chatWithOpenAI(command, getApiKey() || "");
-        panel?.webview.postMessage({
-          type: "chatResponse",
-          response,
-        });
-      } catch (error: any) {
-        panel?.webview.postMessage({
-          type: "error",
-          message: "Error chatting with AI",
-        });
-      }
-      break;
+  console.warn("Unhandled command:", command);
+  try {
+    const response = await chatWithOpenAI(command, getApiKey() || "");
+    panel?.webview.postMessage({
+      type: "chatResponse",
+      response,
+    });
+    return { response };
+  } catch (error: any) {
+    panel?.webview.postMessage({
+      type: "error",
+      message: "Error chatting with AI",
+    });
+    throw error;
   }
 }
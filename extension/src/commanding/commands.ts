@@ -1067,28 +1067,20 @@ export const BuiltInCommands = {
 /**
  * Custom commands that are not part of the built-in commands.
  * Usually involves multiple steps or custom logic and entity extraction.
+ * Each maps a handler name to the pattern it is said with, where
+ * `{name:type}` is a slot parsed by ./grammar. When several patterns fit,
+ * the first one listed wins.
  */
 export const CustomCommands = {
-  "get screenshot": "screenshot",
-  "type [text]": "type",
-  "type [text] and enter": "typeAndEnter",
-  "keytap enter": "enter",
-  "keytap tab": "tab",
-  "keytap escape": "escape",
-  "keytap backspace": "backspace",
-  "keytap delete": "delete",
-  "keytap space": "space",
-  "keytap up": "up",
-  "keytap down": "down",
-  "keytap left": "left",
-  "keytap right": "right",
-  "go to line [number]": "goToLine",
-  "open file [filename]": "openFile",
-  "search [text]": "search",
-  "replace [text] with [text]": "replace",
+  screenshot: "get screenshot",
+  typeAndEnter: "type {text:text} and enter",
+  type: "type {text:text}",
+  keytap: "keytap {key:key}",
+  goToLine: "go to line {line:integer}",
+  goToSymbol: "go to symbol {symbol:symbol}",
+  openFile: "open file {file:path}",
+  search: "search {query:text}",
+  replace: "replace {query:text} with {replacement:text}",
 } as const;
 
-export const Commands = {
-  ...BuiltInCommands,
-  ...CustomCommands,
-} as const;
+export type CustomCommandName = keyof typeof CustomCommands;
@@ -0,0 +1,309 @@
+import { CustomCommandName, CustomCommands } from "./commands";
+import { lookupKey } from "../input/keys";
+
+/**
+ * What a slot of a custom command accepts:
+ * - `text`: anything, e.g. text to type
+ * - `integer`: a whole number, e.g. a line number
+ * - `path`: a file path, absolute or relative to the workspace
+ * - `symbol`: an identifier, optionally qualified, e.g. `Server.start`
+ * - `key`: a key name, as in keyboard events
+ */
+export type SlotType = "text" | "integer" | "path" | "symbol" | "key";
+
+export interface Slot {
+  name: string;
+  type: SlotType;
+}
+
+type Part = { literal: string } | { slot: Slot };
+
+export type SlotValue = string | number;
+
+export interface ParsedCommand {
+  name: CustomCommandName;
+  // Words the command starts with, e.g. "go to line"
+  title: string;
+  args: Record<string, SlotValue>;
+}
+
+/**
+ * Text that starts like a custom command but does not fit its pattern.
+ * Clients are told why with the "invalid-command" error code.
+ */
+export class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandParseError";
+  }
+}
+
+// Expected values for each slot type, to explain a mismatch
+const SLOT_EXPECTATIONS: Record<SlotType, string> = {
+  text: "some text",
+  integer: "a whole number",
+  path: "a file path",
+  symbol: "an identifier such as parseConfig or Server.start",
+  key: "a key name such as enter or escape",
+};
+
+/**
+ * Convert the text captured by a slot to its type.
+ * @returns the value, or undefined when the text does not fit the type
+ */
+function convertSlot(type: SlotType, raw: string): SlotValue | undefined {
+  const value = raw.trim();
+  if (!value) return undefined;
+  switch (type) {
+    case "text":
+      return raw;
+    case "integer":
+      return /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+    case "path":
+      return value.includes("\0") ? undefined : value;
+    case "symbol":
+      return /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(value)
+        ? value
+        : undefined;
+    case "key":
+      return lookupKey(value) !== undefined ? value : undefined;
+  }
+}
+
+interface CompiledPattern {
+  name: CustomCommandName;
+  pattern: string;
+  parts: Part[];
+  // Leading words that identify the command
+  title: string;
+}
+
+/**
+ * Split a pattern like "go to line {line:integer}" into literals and slots.
+ * @param pattern
+ */
+export function compilePattern(pattern: string): Part[] {
+  const parts: Part[] = [];
+  const slotPattern = /\{(\w+):(\w+)\}/g;
+  let last = 0;
+  for (const match of pattern.matchAll(slotPattern)) {
+    if (match.index! > last) {
+      parts.push({ literal: pattern.slice(last, match.index) });
+    }
+    parts.push({ slot: { name: match[1], type: match[2] as SlotType } });
+    last = match.index! + match[0].length;
+  }
+  if (last < pattern.length) {
+    parts.push({ literal: pattern.slice(last) });
+  }
+  return parts;
+}
+
+/**
+ * How a pattern reads to a user, e.g. "go to line [line]".
+ * @param pattern
+ */
+export function describePattern(pattern: string): string {
+  return pattern.replace(/\{(\w+):\w+\}/g, "[$1]");
+}
+
+let compiled: CompiledPattern[] | null = null;
+
+function getPatterns(): CompiledPattern[] {
+  if (!compiled) {
+    compiled = Object.entries(CustomCommands).map(([name, pattern]) => {
+      const parts = compilePattern(pattern);
+      const first = parts[0];
+      return {
+        name: name as CustomCommandName,
+        pattern,
+        parts,
+        title: "literal" in first ? first.literal.trim() : "",
+      };
+    });
+  }
+  return compiled;
+}
+
+/**
+ * Every way the text fits the parts, as the raw text of each slot. A slot
+ * ends wherever the literal after it appears, unless its text is quoted.
+ */
+function splitText(text: string, parts: Part[]): string[][] {
+  const lower = text.toLowerCase();
+  const results: string[][] = [];
+  const visit = (index: number, position: number, values: string[]) => {
+    if (index === parts.length) {
+      if (position === text.length) {
+        results.push(values);
+      }
+      return;
+    }
+    const part = parts[index];
+    if ("literal" in part) {
+      const literal = part.literal.toLowerCase();
+      if (lower.startsWith(literal, position)) {
+        visit(index + 1, position + literal.length, values);
+      }
+      return;
+    }
+
+    if (text[position] === '"') {
+      const closing = text.indexOf('"', position + 1);
+      if (closing !== -1) {
+        const quoted = text.slice(position + 1, closing);
+        visit(index + 1, closing + 1, [...values, quoted]);
+      }
+      return;
+    }
+    const next = parts[index + 1];
+    if (!next) {
+      visit(index + 1, text.length, [...values, text.slice(position)]);
+      return;
+    }
+    // Slots are never adjacent, so a literal always follows
+    const literal = (next as { literal: string }).literal.toLowerCase();
+    for (
+      let end = lower.indexOf(literal, position + 1);
+      end !== -1;
+      end = lower.indexOf(literal, end + 1)
+    ) {
+      visit(index + 1, end, [...values, text.slice(position, end)]);
+    }
+  };
+  visit(0, 0, []);
+  return results;
+}
+
+/**
+ * Whether the text starts with a pattern's leading words, e.g. "go to line"
+ * for "go to line {line:integer}".
+ */
+function startsLike(text: string, pattern: CompiledPattern): boolean {
+  const lower = text.toLowerCase().trim();
+  const title = pattern.title.toLowerCase();
+  if (lower === title) {
+    return true;
+  }
+  // Commands without slots are said as they are
+  const hasSlots = pattern.parts.length > 1;
+  return hasSlots && lower.startsWith(title) && /\s/.test(lower[title.length]);
+}
+
+/**
+ * Parse the text against one pattern.
+ * @returns the command, or null when the words around the slots differ
+ * @throws CommandParseError when the slots do not fit their types, or fit
+ * in more than one way
+ */
+function parseWith(
+  text: string,
+  pattern: CompiledPattern
+): ParsedCommand | null {
+  const slots = pattern.parts.flatMap((part) =>
+    "slot" in part ? [part.slot] : []
+  );
+  const usage = describePattern(pattern.pattern);
+  const splits = splitText(text.trim(), pattern.parts);
+  if (splits.length === 0) {
+    return null;
+  }
+
+  let firstError: string | null = null;
+  const parses: Record<string, SlotValue>[] = [];
+  for (const values of splits) {
+    const args: Record<string, SlotValue> = {};
+    const invalid = slots.find((slot, i) => {
+      const value = convertSlot(slot.type, values[i]);
+      if (value === undefined) {
+        firstError ??= values[i].trim()
+          ? `Expected ${SLOT_EXPECTATIONS[slot.type]} for ${slot.name}, got "${values[i].trim()}"`
+          : `Missing ${slot.name} in "${usage}"`;
+        return true;
+      }
+      args[slot.name] = value;
+      return false;
+    });
+    if (!invalid) {
+      parses.push(args);
+    }
+  }
+
+  if (parses.length === 0) {
+    throw new CommandParseError(firstError!);
+  }
+  if (parses.length > 1) {
+    const slot = slots.find((s) => parses[0][s.name] !== parses[1][s.name])!;
+    throw new CommandParseError(
+      `The ${slot.name} could end in more than one place; put it in double quotes`
+    );
+  }
+  return { name: pattern.name, title: pattern.title, args: parses[0] };
+}
+
+/**
+ * Which custom command the text is meant as, judged by its leading words
+ * only, so that commands whose arguments do not fit are still recognised.
+ * @param text
+ */
+export function identifyCustomCommand(
+  text: string
+): CustomCommandName | undefined {
+  return getPatterns().find((pattern) => startsLike(text, pattern))?.name;
+}
+
+export function isCustomCommand(text: string): boolean {
+  return identifyCustomCommand(text) !== undefined;
+}
+
+/**
+ * Parse a custom command into its name and typed arguments. Patterns are
+ * tried in the order they are declared, and the first that fits wins.
+ * @param text
+ * @returns the command, or null when the text is not a custom command
+ * @throws CommandParseError when the text starts like a custom command but
+ * none fits, or when it fits in more than one way
+ */
+export function parseCustomCommand(text: string): ParsedCommand | null {
+  let firstError: CommandParseError | null = null;
+  const usages: string[] = [];
+  for (const pattern of getPatterns()) {
+    if (!startsLike(text, pattern)) continue;
+    try {
+      const parsed = parseWith(text, pattern);
+      if (parsed) {
+        return parsed;
+      }
+      usages.push(`"${describePattern(pattern.pattern)}"`);
+    } catch (error) {
+      if (!(error instanceof CommandParseError)) throw error;
+      firstError ??= error;
+    }
+  }
+  // Arguments that do not fit say more than the words around them
+  if (firstError) {
+    throw firstError;
+  }
+  if (usages.length > 0) {
+    throw new CommandParseError(`Expected ${usages.join(" or ")}`);
+  }
+  return null;
+}
+
+/**
+ * Leading words of a custom command, e.g. "go to line" for goToLine.
+ * @param name
+ */
+export function getCommandTitle(name: CustomCommandName): string {
+  return getPatterns().find((pattern) => pattern.name === name)!.title;
+}
+
+/**
+ * Slots of a custom command, e.g. to describe it in the command catalog.
+ * @param name
+ */
+export function getSlots(name: CustomCommandName): Slot[] {
+  return compilePattern(CustomCommands[name]).flatMap((part) =>
+    "slot" in part ? [part.slot] : []
+  );
+}
@@ -0,0 +1,268 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { BuiltInCommands } from "./commands";
+import { RobotJSCommandHandlers } from "./robotjs-handlers";
+import { typeText } from "../input/text";
+
+/**
+ * What a `waitFor` step waits for:
+ * - `tasks-idle`: no task is running, e.g. after starting a test task
+ * - `editor-open`: a text editor is active
+ * - `no-errors`: no file has error diagnostics
+ */
+export type WaitCondition = "tasks-idle" | "editor-open" | "no-errors";
+
+/**
+ * One step of a macro, with exactly one of these keys:
+ * - `command`: a name from BuiltInCommands, e.g. "Save all files"
+ * - `action`: a RobotJSCommandHandlers name, e.g. "enter", with its `args`
+ * - `text`: text to type
+ * - `delay`: milliseconds to wait
+ * - `waitFor`: a condition to wait for, failing after `timeout` milliseconds
+ */
+export type MacroStep =
+  | { command: string }
+  | { action: string; args?: string[] }
+  | { text: string }
+  | { delay: number }
+  | { waitFor: WaitCondition; timeout?: number };
+
+export interface Macro {
+  name: string;
+  steps: MacroStep[];
+}
+
+/**
+ * A macro stopped at a failing step. Steps count from 1.
+ */
+export class MacroError extends Error {
+  constructor(
+    public readonly macro: string,
+    public readonly step: number,
+    reason: string
+  ) {
+    super(`Macro "${macro}" stopped at step ${step}: ${reason}`);
+    this.name = "MacroError";
+  }
+}
+
+const MACROS_FILE = path.join(".aircodum", "macros.json");
+const MACROS_FILE_GLOB = "**/.aircodum/macros.json";
+const DEFAULT_WAIT_TIMEOUT = 30000; // ms
+const WAIT_POLL_INTERVAL = 250; // ms
+
+const WAIT_CONDITIONS: Record<
+  WaitCondition,
+  { description: string; isMet: () => boolean }
+> = {
+  "tasks-idle": {
+    description: "running tasks to finish",
+    isMet: () => vscode.tasks.taskExecutions.length === 0,
+  },
+  "editor-open": {
+    description: "an editor to open",
+    isMet: () => vscode.window.activeTextEditor !== undefined,
+  },
+  "no-errors": {
+    description: "errors to clear",
+    isMet: () =>
+      vscode.languages
+        .getDiagnostics()
+        .every(([, diagnostics]) =>
+          diagnostics.every(
+            (diagnostic) =>
+              diagnostic.severity !== vscode.DiagnosticSeverity.Error
+          )
+        ),
+  },
+};
+
+function isWaitCondition(value: unknown): value is WaitCondition {
+  return (
+    typeof value === "string" && Object.keys(WAIT_CONDITIONS).includes(value)
+  );
+}
+
+export function isValidMacroStep(value: unknown): value is MacroStep {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const step = value as Record<string, unknown>;
+  const keys = Object.keys(step);
+  const only = (...allowed: string[]) =>
+    keys.every((key) => allowed.includes(key));
+  if ("command" in step) {
+    return typeof step.command === "string" && only("command");
+  }
+  if ("action" in step) {
+    return (
+      typeof step.action === "string" &&
+      (step.args === undefined ||
+        (Array.isArray(step.args) &&
+          step.args.every((arg) => typeof arg === "string"))) &&
+      only("action", "args")
+    );
+  }
+  if ("text" in step) {
+    return typeof step.text === "string" && only("text");
+  }
+  if ("delay" in step) {
+    return typeof step.delay === "number" && step.delay >= 0 && only("delay");
+  }
+  if ("waitFor" in step) {
+    return (
+      isWaitCondition(step.waitFor) &&
+      (step.timeout === undefined ||
+        (typeof step.timeout === "number" && step.timeout > 0)) &&
+      only("waitFor", "timeout")
+    );
+  }
+  return false;
+}
+
+/**
+ * Macros by name, from a setting or a macros file. Invalid entries are
+ * skipped.
+ */
+function readMacros(source: unknown, origin: string): Macro[] {
+  if (typeof source !== "object" || source === null) {
+    return [];
+  }
+  return Object.entries(source).flatMap(([name, steps]) => {
+    if (!Array.isArray(steps) || !steps.every(isValidMacroStep)) {
+      console.warn(`Skipping invalid macro "${name}" in ${origin}`);
+      return [];
+    }
+    return [{ name, steps }];
+  });
+}
+
+function readMacrosFile(folder: vscode.WorkspaceFolder): Macro[] {
+  const file = path.join(folder.uri.fsPath, MACROS_FILE);
+  let contents: string;
+  try {
+    contents = fs.readFileSync(file, "utf-8");
+  } catch {
+    // Most workspaces have none
+    return [];
+  }
+  try {
+    return readMacros(JSON.parse(contents), file);
+  } catch (error) {
+    console.warn(`Error reading ${file}:`, error);
+    return [];
+  }
+}
+
+// Parsed macros, read again once the setting or a macros file changes
+let cachedMacros: Macro[] | null = null;
+
+function loadMacros(): Macro[] {
+  const macros = new Map<string, Macro>();
+  const settings = vscode.workspace
+    .getConfiguration("aircodum")
+    .get<Record<string, unknown>>("macros", {});
+  // A cloned repository must not be able to type into the desktop, so its
+  // macros files only count once the workspace is trusted
+  const files = vscode.workspace.isTrusted
+    ? (vscode.workspace.workspaceFolders ?? []).flatMap(readMacrosFile)
+    : [];
+  for (const macro of [...readMacros(settings, "settings"), ...files]) {
+    macros.set(macro.name.toLowerCase(), macro);
+  }
+  return [...macros.values()];
+}
+
+/**
+ * Macros defined in the `aircodum.macros` setting and in the
+ * `.aircodum/macros.json` file of each workspace folder, when the workspace
+ * is trusted. A macro in a file replaces a setting with the same name.
+ */
+export function getMacros(): Macro[] {
+  cachedMacros ??= loadMacros();
+  return cachedMacros;
+}
+
+/**
+ * Forget the parsed macros whenever where they come from changes: the
+ * setting, a macros file, the workspace folders or the workspace's trust.
+ * @param context
+ */
+export function watchMacros(context: vscode.ExtensionContext) {
+  const invalidate = () => {
+    cachedMacros = null;
+  };
+  const watcher = vscode.workspace.createFileSystemWatcher(MACROS_FILE_GLOB);
+  context.subscriptions.push(
+    watcher,
+    watcher.onDidCreate(invalidate),
+    watcher.onDidChange(invalidate),
+    watcher.onDidDelete(invalidate),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("aircodum.macros")) {
+        invalidate();
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(invalidate),
+    vscode.workspace.onDidGrantWorkspaceTrust(invalidate)
+  );
+}
+
+/**
+ * The macro a command names, ignoring case.
+ * @param command
+ */
+export function findMacro(command: string): Macro | undefined {
+  const name = command.trim().toLowerCase();
+  return getMacros().find((macro) => macro.name.toLowerCase() === name);
+}
+
+async function waitFor(condition: WaitCondition, timeout: number) {
+  const { description, isMet } = WAIT_CONDITIONS[condition];
+  const deadline = Date.now() + timeout;
+  // Check after a first interval, so that what the previous step started,
+  // such as a task, has begun
+  do {
+    await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_INTERVAL));
+    if (isMet()) return;
+  } while (Date.now() < deadline);
+  throw new Error(`Timed out after ${timeout} ms waiting for ${description}`);
+}
+
+async function runStep(step: MacroStep) {
+  if ("command" in step) {
+    if (!Object.keys(BuiltInCommands).includes(step.command)) {
+      throw new Error(`Unknown command: ${step.command}`);
+    }
+    await vscode.commands.executeCommand(
+      BuiltInCommands[step.command as keyof typeof BuiltInCommands]
+    );
+  } else if ("action" in step) {
+    if (!Object.keys(RobotJSCommandHandlers).includes(step.action)) {
+      throw new Error(`Unknown action: ${step.action}`);
+    }
+    await RobotJSCommandHandlers[step.action](...(step.args ?? []));
+  } else if ("text" in step) {
+    await typeText(step.text);
+  } else if ("delay" in step) {
+    await new Promise((resolve) => setTimeout(resolve, step.delay));
+  } else {
+    await waitFor(step.waitFor, step.timeout ?? DEFAULT_WAIT_TIMEOUT);
+  }
+}
+
+/**
+ * Run a macro's steps in order, stopping at the first that fails.
+ * @param macro
+ * @throws MacroError naming the step that failed and why
+ */
+export async function runMacro(macro: Macro) {
+  for (const [index, step] of macro.steps.entries()) {
+    try {
+      await runStep(step);
+    } catch (error: any) {
+      throw new MacroError(macro.name, index + 1, error.message);
+    }
+  }
+}
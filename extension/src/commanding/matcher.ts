@@ -0,0 +1,267 @@
+import { BuiltInCommands } from "./commands";
+
+/**
+ * A built-in command ranked against what the user said.
+ */
+export interface CommandMatch {
+  // Key in BuiltInCommands, e.g. "Toggle terminal"
+  name: string;
+  // VS Code command id it runs
+  command: string;
+  // Similarity between 0 and 1
+  score: number;
+}
+
+export interface MatchResult {
+  // Set when the best candidate is clear enough to run without asking
+  match?: CommandMatch;
+  // Best candidates first, for the user to pick from
+  candidates: CommandMatch[];
+}
+
+// Score a match needs to be run straight away
+const CONFIDENT_SCORE = 0.75;
+// How far ahead of the runner-up a confident match must be
+const CONFIDENT_MARGIN = 0.1;
+// Candidates scoring less are not worth offering
+const MIN_CANDIDATE_SCORE = 0.3;
+const MAX_CANDIDATES = 5;
+
+// Filler that dictation adds around a command
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "please",
+  "can",
+  "could",
+  "would",
+  "you",
+  "me",
+  "my",
+  "i",
+  "want",
+  "to",
+  "of",
+  "for",
+  "this",
+  "that",
+  "it",
+  "now",
+]);
+
+/**
+ * Words people say for the ones used in command names. Each word maps to
+ * the first word of its group.
+ */
+const SYNONYM_GROUPS = [
+  ["show", "open", "display", "reveal", "view"],
+  ["hide", "close", "dismiss"],
+  ["search", "find", "look"],
+  ["delete", "remove", "erase"],
+  ["toggle", "switch", "flip"],
+  ["go", "jump", "navigate"],
+  ["terminal", "console", "shell"],
+  ["problem", "error", "issue", "diagnostic"],
+  ["new", "create", "add"],
+  ["run", "execute", "launch", "start"],
+  ["format", "prettify", "beautify", "tidy"],
+  ["save", "store", "write"],
+  ["next", "following"],
+  ["previous", "prior", "preceding"],
+  ["all", "every", "everything"],
+  ["panel", "pane"],
+  ["file", "document"],
+  ["line", "row"],
+  ["bigger", "increase", "larger"],
+  ["smaller", "decrease"],
+];
+
+const SYNONYMS = new Map<string, string>(
+  SYNONYM_GROUPS.flatMap((group) => group.map((word) => [word, group[0]]))
+);
+
+/**
+ * Reduce a word to a rough stem, so that "files", "filed" and "file" agree.
+ * @param word
+ */
+function stem(word: string): string {
+  for (const suffix of ["ing", "ed", "es", "s"]) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into the words that identify a command, normalized so that
+ * synonyms and inflections compare equal.
+ * @param text
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      // Split camel case, as in ids and some titles
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word && !STOPWORDS.has(word))
+      .map((word) => {
+        const synonym = SYNONYMS.get(word) ?? SYNONYMS.get(stem(word));
+        return synonym ?? stem(word);
+      })
+  );
+}
+
+/**
+ * Whether two words are at most one edit apart, to forgive dictation slips
+ * like "termnal". Short words must match exactly.
+ * @param a
+ * @param b
+ */
+function isNearMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 5 || Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) {
+      i++;
+    } else if (b.length > a.length) {
+      j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+interface IndexedCommand {
+  name: string;
+  command: string;
+  tokens: Set<string>;
+}
+
+interface CommandIndex {
+  commands: IndexedCommand[];
+  // Inverse document frequency of each token, so that rare words count more
+  weights: Map<string, number>;
+  // Weight of a word no command uses
+  unknownWeight: number;
+}
+
+let index: CommandIndex | null = null;
+
+function getIndex(): CommandIndex {
+  if (!index) {
+    const commands = Object.entries(BuiltInCommands).map(([name, command]) => ({
+      name,
+      command,
+      tokens: new Set(tokenize(name)),
+    }));
+    const counts = new Map<string, number>();
+    for (const { tokens } of commands) {
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+    }
+    const weights = new Map<string, number>();
+    for (const [token, count] of counts) {
+      weights.set(token, Math.log(1 + commands.length / count));
+    }
+    index = {
+      commands,
+      weights,
+      unknownWeight: Math.log(1 + commands.length),
+    };
+  }
+  return index;
+}
+
+/**
+ * Weighted overlap between the words said and a command's words, from 0 for
+ * nothing in common to 1 for the same words.
+ */
+function similarity(
+  said: string[],
+  command: Set<string>,
+  { weights, unknownWeight }: CommandIndex
+): number {
+  const weightOf = (token: string) => weights.get(token) ?? unknownWeight;
+  let matched = 0;
+  const unmatched = new Set(command);
+  for (const token of said) {
+    const hit = [...unmatched].find((other) => isNearMatch(token, other));
+    if (hit) {
+      matched += weightOf(hit);
+      unmatched.delete(hit);
+    }
+  }
+  const total =
+    said.reduce((sum, token) => sum + weightOf(token), 0) +
+    [...command].reduce((sum, token) => sum + weightOf(token), 0);
+  return total === 0 ? 0 : (2 * matched) / total;
+}
+
+/**
+ * Rank built-in commands by how well their names match an utterance, e.g.
+ * dictated on the phone. Commands several names map to are only listed once.
+ * @param utterance
+ * @param limit
+ */
+export function rankCommands(
+  utterance: string,
+  limit = MAX_CANDIDATES
+): CommandMatch[] {
+  const said = [...new Set(tokenize(utterance))];
+  if (said.length === 0) {
+    return [];
+  }
+  const commandIndex = getIndex();
+  const best = new Map<string, CommandMatch>();
+  for (const { name, command, tokens } of commandIndex.commands) {
+    const score = similarity(said, tokens, commandIndex);
+    if (score < MIN_CANDIDATE_SCORE) continue;
+    const current = best.get(command);
+    if (!current || score > current.score) {
+      best.set(command, { name, command, score });
+    }
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+function isExactMatch(match: CommandMatch): boolean {
+  // Allow for rounding in the weighted sums
+  return match.score > 0.999;
+}
+
+/**
+ * Find the built-in command an utterance means, without a network call.
+ * @param utterance
+ * @returns the command to run if the best candidate is clear, and the
+ * candidates to offer otherwise
+ */
+export function matchCommand(utterance: string): MatchResult {
+  const candidates = rankCommands(utterance);
+  const [first, second] = candidates;
+  if (!first) {
+    return { candidates };
+  }
+  // Matching every word said and nothing else settles it, unless two commands do
+  const confident = isExactMatch(first)
+    ? !second || !isExactMatch(second)
+    : first.score >= CONFIDENT_SCORE &&
+      first.score - (second?.score ?? 0) >= CONFIDENT_MARGIN;
+  return confident ? { match: first, candidates } : { candidates };
+}
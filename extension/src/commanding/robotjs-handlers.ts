@@ -1,114 +1,69 @@
-import * as path from "path";
-import * as vscode from "vscode";
-import os from "os";
-
-// Dynamically load the correct native module based on the platform
-let robotjsPath: string;
-if (process.platform === "darwin") {
-  robotjsPath = path.join(
-    __dirname,
-    "darwin-x64+arm64",
-    "@hurdlegroup+robotjs.node"
-  );
-} else if (process.platform === "linux") {
-  robotjsPath = path.join(__dirname, "linux-x64", "@hurdlegroup+robotjs.node");
-} else if (process.platform === "win32") {
-  if (os.arch() === "x64") {
-    robotjsPath = path.join(
-      __dirname,
-      "win32-x64",
-      "@hurdlegroup+robotjs.node"
-    );
-  } else {
-    robotjsPath = path.join(
-      __dirname,
-      "win32-ia32",
-      "@hurdlegroup+robotjs.node"
-    );
-  }
-} else {
-  throw new Error("Unsupported platform");
-}
-
-// Load the native module
-const robot = require(robotjsPath);
-
-// Type definition for the robotjs module
-interface RobotJS {
-  typeString(text: string): void;
-  keyTap(key: string, modifiers?: string[]): void;
-  setKeyboardDelay(ms: number): void;
-  moveMouse(x: number, y: number): void;
-  mouseClick(button?: string): void;
-  mouseToggle(down: string, button?: string): void;
-  scrollMouse(x: number, y: number): void;
-  getScreenSize(): { width: number; height: number };
-}
-
-// Assert that the loaded module matches the expected interface
-export const typedRobot = robot as RobotJS;
+import { getInputBackend } from "../input/backend";
+import { toRobotKey } from "../input/keys";
+import { typeAtFocus, typeText } from "../input/text";
 
 /**
  * Commands that involve Desktop automation not possible with VS Code APIs.
- * These commands are handled by a fork of the `robotjs` library.
+ * They inject input through the current input backend, robotjs by default.
  */
 export const RobotJSCommandHandlers: Record<
   string,
-  (...args: string[]) => void
+  (...args: string[]) => void | Promise<void>
 > = {
-  type: (text: string) => {
-    typedRobot.typeString(text);
-  },
-  typeAndEnter: (text: string) => {
-    typedRobot.typeString(text);
-    typedRobot.keyTap("enter");
+  type: (text: string) => typeText(text),
+  typeAndEnter: async (text: string) => {
+    await typeText(text);
+    getInputBackend().keyTap("enter");
   },
-  enter: () => typedRobot.keyTap("enter"),
-  tab: () => typedRobot.keyTap("tab"),
-  escape: () => typedRobot.keyTap("escape"),
-  backspace: () => typedRobot.keyTap("backspace"),
-  delete: () => typedRobot.keyTap("delete"),
-  space: () => typedRobot.keyTap("space"),
-  up: () => typedRobot.keyTap("up"),
-  down: () => typedRobot.keyTap("down"),
-  left: () => typedRobot.keyTap("left"),
-  right: () => typedRobot.keyTap("right"),
-  shift: () => typedRobot.keyTap("shift"),
-  search: (query: string) => {
+  keytap: (key: string) => getInputBackend().keyTap(toRobotKey(key)),
+  enter: () => getInputBackend().keyTap("enter"),
+  tab: () => getInputBackend().keyTap("tab"),
+  escape: () => getInputBackend().keyTap("escape"),
+  backspace: () => getInputBackend().keyTap("backspace"),
+  delete: () => getInputBackend().keyTap("delete"),
+  space: () => getInputBackend().keyTap("space"),
+  up: () => getInputBackend().keyTap("up"),
+  down: () => getInputBackend().keyTap("down"),
+  left: () => getInputBackend().keyTap("left"),
+  right: () => getInputBackend().keyTap("right"),
+  shift: () => getInputBackend().keyTap("shift"),
+  search: async (query: string) => {
+    const input = getInputBackend();
     // Open the search panel
     if (process.platform === "darwin") {
-      typedRobot.keyTap("f", ["command", "shift"]);
+      input.keyTap("f", ["command", "shift"]);
     } else {
-      typedRobot.keyTap("f", ["control", "shift"]);
+      input.keyTap("f", ["control", "shift"]);
     }
 
     // Wait briefly to ensure the panel is open
-    typedRobot.setKeyboardDelay(200);
+    input.setKeyboardDelay(200);
 
     // Type the search query
-    typedRobot.typeString(query);
+    await typeAtFocus(query);
   },
-  replace: (query: string, replacement: string) => {
+  replace: async (query: string, replacement: string) => {
+    const input = getInputBackend();
     // Open the replace panel
     if (process.platform === "darwin") {
-      typedRobot.keyTap("h", ["command", "shift"]);
+      input.keyTap("h", ["command", "shift"]);
     } else {
-      typedRobot.keyTap("h", ["control", "shift"]);
+      input.keyTap("h", ["control", "shift"]);
     }
 
     // Wait briefly to ensure the panel is open
-    typedRobot.setKeyboardDelay(200);
+    input.setKeyboardDelay(200);
 
     // Type the search query
-    typedRobot.typeString(query);
+    await typeAtFocus(query);
 
     // Move focus to the replace field
-    typedRobot.keyTap("tab");
+    input.keyTap("tab");
 
     // Type the replacement text
-    typedRobot.typeString(replacement);
+    await typeAtFocus(replacement);
 
     // Optionally, execute the replace by pressing Enter
-    typedRobot.keyTap("enter");
+    input.keyTap("enter");
   },
 };
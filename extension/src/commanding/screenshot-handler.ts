@@ -1,21 +1,27 @@
 import { WebSocket } from "ws";
-import screenshot from "screenshot-desktop";
 import { saveFile } from "../files/utils";
 import { resizeImage } from "../utils";
+import { ErrorMessage } from "../protocol/messages";
+import {
+  captureDisplay,
+  DisplaySelection,
+  getDisplays,
+  PRIMARY_DISPLAY,
+} from "../capture/displays";
 
 /**
  * Take a screenshot of the screen and send it to the mobile app via the WebSocket connection.
  * @param ws
+ * @param display display to capture
+ * @throws after telling the app, when the screenshot could not be taken
  */
-export async function takeAndSendScreenshot(ws: WebSocket) {
+export async function takeAndSendScreenshot(
+  ws: WebSocket,
+  display: DisplaySelection = PRIMARY_DISPLAY
+) {
   try {
-    const scnsht = await screenshot({ format: "png" });
-    let screenshotBuffer: Buffer;
-    if (Array.isArray(scnsht)) {
-      screenshotBuffer = scnsht[0].data; // Use the first display's screenshot
-    } else {
-      screenshotBuffer = scnsht;
-    }
+    const displays = await getDisplays();
+    const screenshotBuffer = await captureDisplay(display, displays, "png");
 
     const fileInfo = await saveFile(screenshotBuffer);
     console.log("fileInfo", fileInfo);
@@ -26,11 +32,12 @@ export async function takeAndSendScreenshot(ws: WebSocket) {
     ws.send(`data:image/png;base64,${base64}`);
   } catch (error) {
     console.error("Error taking or sending screenshot:", error);
-    ws.send(
-      JSON.stringify({
-        type: "error",
-        message: "Failed to take or send screenshot",
-      })
-    );
+    const reply: ErrorMessage = {
+      type: "error",
+      code: "command-failed",
+      message: "Failed to take or send screenshot",
+    };
+    ws.send(JSON.stringify(reply));
+    throw error;
   }
 }
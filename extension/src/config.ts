@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import { getIPAddress, getNetworkAddresses } from "./utils";
+import { isValidRegion, Region } from "./capture/regions";
+
+export type BindMode = "all" | "loopback" | "interface";
+
+export interface ServerConfig {
+  port: number;
+  bindAddress: BindMode;
+  networkInterface: string;
+  autoStart: boolean;
+  useTls: boolean;
+  discovery: boolean;
+}
+
+// Settings that only take effect when the server is (re)started
+const SERVER_SETTINGS = [
+  "aircodum.port",
+  "aircodum.bindAddress",
+  "aircodum.networkInterface",
+  "aircodum.useTls",
+  "aircodum.discovery",
+];
+
+/**
+ * Read the server settings contributed in package.json.
+ */
+export function getServerConfig(): ServerConfig {
+  const config = vscode.workspace.getConfiguration("aircodum");
+  return {
+    port: config.get<number>("port", 11040),
+    bindAddress: config.get<BindMode>("bindAddress", "all"),
+    networkInterface: config.get<string>("networkInterface", ""),
+    autoStart: config.get<boolean>("autoStart", false),
+    // Plain ws:// is an explicit opt-in for trusted networks
+    useTls: config.get<boolean>("useTls", true),
+    discovery: config.get<boolean>("discovery", true),
+  };
+}
+
+/**
+ * Regions of interest saved in the `aircodum.capture.regions` setting, by name.
+ * Invalid entries are skipped.
+ */
+export function getSavedRegions(): Record<string, Region> {
+  const regions = vscode.workspace
+    .getConfiguration("aircodum")
+    .get<Record<string, unknown>>("capture.regions", {});
+  return Object.fromEntries(
+    Object.entries(regions ?? {}).filter(([, region]) => isValidRegion(region))
+  ) as Record<string, Region>;
+}
+
+/**
+ * Address the server listens on.
+ * @param config
+ */
+export function resolveBindAddress(config: ServerConfig): string {
+  switch (config.bindAddress) {
+    case "loopback":
+      return "127.0.0.1";
+    case "interface": {
+      const match = getNetworkAddresses().find(
+        (a) =>
+          a.interfaceName === config.networkInterface && a.family === "IPv4"
+      );
+      if (!match) {
+        throw new Error(
+          `Network interface "${config.networkInterface}" has no IPv4 address`
+        );
+      }
+      return match.address;
+    }
+    default:
+      return "0.0.0.0";
+  }
+}
+
+/**
+ * Address shown to users for connecting their devices.
+ * @param config
+ */
+export function resolveDisplayAddress(config: ServerConfig): string {
+  if (config.bindAddress === "all") {
+    return getIPAddress(config.networkInterface || undefined);
+  }
+  return resolveBindAddress(config);
+}
+
+/**
+ * Every address devices can reach the server on, given what it is bound to.
+ * @param config
+ */
+export function getReachableAddresses(config: ServerConfig): string[] {
+  if (config.bindAddress !== "all") {
+    return [resolveBindAddress(config)];
+  }
+  const addresses = getNetworkAddresses().map((a) => a.address);
+  return addresses.length > 0 ? addresses : ["127.0.0.1"];
+}
+
+export function affectsServerConfig(
+  event: vscode.ConfigurationChangeEvent
+): boolean {
+  return SERVER_SETTINGS.some((setting) => event.affectsConfiguration(setting));
+}
@@ -0,0 +1,53 @@
+import * as net from "net";
+import QRCode from "qrcode";
+
+export interface ConnectionDetails {
+  addresses: string[];
+  port: number;
+  tlsFingerprint: string | null;
+  pairingCode: string | null;
+}
+
+/**
+ * Build the URI the mobile app scans to connect and pair in one step, e.g.
+ * `aircodum://connect?host=192.168.1.20&host=100.64.0.5&port=11040&tls=1&fp=AB:CD...&code=123456`.
+ * The app tries each `host` in turn and pins `fp` when `tls` is set. IPv6
+ * hosts are bracketed, and link-local ones left out: their zone names an
+ * interface of this machine, which means nothing to the device.
+ * @param details
+ */
+export function buildConnectionUri(details: ConnectionDetails): string {
+  const params = new URLSearchParams();
+  details.addresses
+    .filter((address) => !isLinkLocalIPv6(address))
+    .forEach((address) =>
+      params.append("host", net.isIPv6(address) ? `[${address}]` : address)
+    );
+  params.set("port", String(details.port));
+  params.set("tls", details.tlsFingerprint ? "1" : "0");
+  if (details.tlsFingerprint) {
+    params.set("fp", details.tlsFingerprint);
+  }
+  if (details.pairingCode) {
+    params.set("code", details.pairingCode);
+  }
+  return `aircodum://connect?${params.toString()}`;
+}
+
+// fe80::/10
+function isLinkLocalIPv6(address: string): boolean {
+  return net.isIPv6(address) && /^fe[89ab]/i.test(address);
+}
+
+/**
+ * Render a QR code as an SVG string. Generated locally; nothing leaves the machine.
+ * @param text
+ */
+export function renderQrCode(text: string): Promise<string> {
+  return QRCode.toString(text, {
+    type: "svg",
+    errorCorrectionLevel: "M",
+    margin: 2,
+    color: { dark: "#000000", light: "#ffffff" },
+  });
+}
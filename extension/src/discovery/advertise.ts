@@ -0,0 +1,92 @@
+import * as os from "os";
+import * as vscode from "vscode";
+import { MdnsAdvertiser, toDnsLabel } from "./mdns";
+import { PROTOCOL_VERSION } from "../protocol/messages";
+import { getNetworkAddresses } from "../utils";
+
+let advertiser: MdnsAdvertiser | null = null;
+// Address the advertised server is bound to
+let advertisedBindAddress: string | null = null;
+
+export interface AdvertisedServer {
+  port: number;
+  useTls: boolean;
+  // Bound address; multicast is restricted to it unless listening on all interfaces
+  bindAddress: string;
+}
+
+/**
+ * IPv4 addresses a server bound to `bindAddress` can be reached on.
+ * @param bindAddress
+ */
+function getAdvertisedAddresses(bindAddress: string): string[] {
+  return bindAddress === "0.0.0.0"
+    ? getNetworkAddresses()
+        .filter((address) => address.family === "IPv4")
+        .map((address) => address.address)
+    : [bindAddress];
+}
+
+/**
+ * Advertise the running server as `_aircodum._tcp` on the local network.
+ * Failures are logged and otherwise ignored: discovery is a convenience and
+ * devices can still connect by address or QR code.
+ * @param server
+ */
+export async function startAdvertising(server: AdvertisedServer) {
+  await stopAdvertising();
+
+  const hostname = os.hostname().split(".")[0] || "vscode";
+  const workspace = vscode.workspace.name ?? "";
+  const instance = new MdnsAdvertiser(
+    {
+      name: toDnsLabel(workspace ? `${hostname} (${workspace})` : hostname),
+      // Kept apart from the OS's own "<hostname>.local" record
+      host: toDnsLabel(`aircodum-${hostname.replace(/[^A-Za-z0-9-]/g, "-")}`),
+      port: server.port,
+      addresses: getAdvertisedAddresses(server.bindAddress),
+      txt: {
+        txtvers: "1",
+        // Lets clients skip servers they cannot talk to
+        proto: String(PROTOCOL_VERSION),
+        host: hostname,
+        workspace,
+        tls: server.useTls ? "1" : "0",
+        // Every connection needs a pairing code or a device token
+        pairing: "1",
+      },
+    },
+    {
+      interfaceAddress:
+        server.bindAddress === "0.0.0.0" ? undefined : server.bindAddress,
+    }
+  );
+
+  try {
+    await instance.start();
+    advertiser = instance;
+    advertisedBindAddress = server.bindAddress;
+  } catch (error) {
+    console.error("Error starting mDNS advertisement:", error);
+  }
+}
+
+/**
+ * Re-announce the server if the addresses it can be reached on changed,
+ * e.g. after moving to another network.
+ */
+export function updateAdvertisedAddresses() {
+  if (advertiser && advertisedBindAddress) {
+    advertiser.updateAddresses(getAdvertisedAddresses(advertisedBindAddress));
+  }
+}
+
+/**
+ * Withdraw the advertisement, telling browsers the service is gone.
+ */
+export async function stopAdvertising() {
+  const current = advertiser;
+  advertiser = null;
+  advertisedBindAddress = null;
+  await current?.stop();
+}
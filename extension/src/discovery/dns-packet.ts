@@ -0,0 +1,255 @@
+/**
+ * Minimal DNS message encoding and decoding, covering what DNS-SD over
+ * multicast DNS needs (RFC 1035, RFC 6762, RFC 6763).
+ * Names are arrays of labels, because a DNS-SD instance label may contain dots.
+ */
+
+export const RecordTypes = {
+  A: 1,
+  PTR: 12,
+  TXT: 16,
+  SRV: 33,
+  ANY: 255,
+} as const;
+
+const CLASS_IN = 1;
+// Top bit of the class field: "unicast response" in questions, "cache flush" in records
+const CLASS_FLAG = 0x8000;
+
+export const RESPONSE_FLAGS = 0x8400; // QR + AA
+
+export interface DnsQuestion {
+  name: string[];
+  type: number;
+  unicastResponse: boolean;
+}
+
+interface RecordBase {
+  name: string[];
+  ttl: number;
+  // Set on records this host is the only owner of (RFC 6762 section 10.2)
+  cacheFlush?: boolean;
+}
+
+export type DnsRecord =
+  | (RecordBase & { type: "A"; address: string })
+  | (RecordBase & { type: "PTR"; target: string[] })
+  | (RecordBase & { type: "TXT"; entries: string[] })
+  | (RecordBase & {
+      type: "SRV";
+      priority: number;
+      weight: number;
+      port: number;
+      target: string[];
+    });
+
+export interface DnsPacket {
+  id: number;
+  flags: number;
+  questions: DnsQuestion[];
+  answers: DnsRecord[];
+  additionals: DnsRecord[];
+}
+
+export function namesEqual(a: string[], b: string[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((label, i) => label.toLowerCase() === b[i].toLowerCase())
+  );
+}
+
+export function encodePacket(packet: DnsPacket): Buffer {
+  const parts: Buffer[] = [];
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(packet.id, 0);
+  header.writeUInt16BE(packet.flags, 2);
+  header.writeUInt16BE(packet.questions.length, 4);
+  header.writeUInt16BE(packet.answers.length, 6);
+  header.writeUInt16BE(0, 8);
+  header.writeUInt16BE(packet.additionals.length, 10);
+  parts.push(header);
+
+  for (const question of packet.questions) {
+    const fields = Buffer.alloc(4);
+    fields.writeUInt16BE(question.type, 0);
+    fields.writeUInt16BE(
+      CLASS_IN | (question.unicastResponse ? CLASS_FLAG : 0),
+      2
+    );
+    parts.push(encodeName(question.name), fields);
+  }
+  for (const record of [...packet.answers, ...packet.additionals]) {
+    parts.push(encodeRecord(record));
+  }
+  return Buffer.concat(parts);
+}
+
+export function decodePacket(buffer: Buffer): DnsPacket {
+  const id = buffer.readUInt16BE(0);
+  const flags = buffer.readUInt16BE(2);
+  const counts = [4, 6, 8, 10].map((offset) => buffer.readUInt16BE(offset));
+  let offset = 12;
+
+  const questions: DnsQuestion[] = [];
+  for (let i = 0; i < counts[0]; i++) {
+    const [name, next] = decodeName(buffer, offset);
+    const type = buffer.readUInt16BE(next);
+    const cls = buffer.readUInt16BE(next + 2);
+    questions.push({ name, type, unicastResponse: (cls & CLASS_FLAG) !== 0 });
+    offset = next + 4;
+  }
+
+  const records: DnsRecord[] = [];
+  const recordCount = counts[1] + counts[2] + counts[3];
+  for (let i = 0; i < recordCount; i++) {
+    const [record, next] = decodeRecord(buffer, offset);
+    if (record) {
+      records.push(record);
+    }
+    offset = next;
+  }
+
+  return {
+    id,
+    flags,
+    questions,
+    answers: records.slice(0, counts[1]),
+    additionals: records.slice(counts[1]),
+  };
+}
+
+function encodeName(name: string[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const label of name) {
+    const bytes = Buffer.from(label, "utf-8");
+    if (bytes.length > 63) {
+      throw new Error(`DNS label too long: ${label}`);
+    }
+    parts.push(Buffer.from([bytes.length]), bytes);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+function decodeName(buffer: Buffer, offset: number): [string[], number] {
+  const labels: string[] = [];
+  let next = -1;
+  let jumps = 0;
+
+  for (;;) {
+    const length = buffer.readUInt8(offset);
+    if (length === 0) {
+      offset += 1;
+      break;
+    }
+    if ((length & 0xc0) === 0xc0) {
+      // Compression pointer; guard against loops in malformed packets
+      if (++jumps > 32) {
+        throw new Error("Too many DNS name compression pointers");
+      }
+      if (next === -1) {
+        next = offset + 2;
+      }
+      offset = buffer.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+    labels.push(buffer.toString("utf-8", offset + 1, offset + 1 + length));
+    offset += 1 + length;
+  }
+
+  return [labels, next === -1 ? offset : next];
+}
+
+function encodeRecord(record: DnsRecord): Buffer {
+  const rdata = encodeRecordData(record);
+  const fields = Buffer.alloc(10);
+  fields.writeUInt16BE(RecordTypes[record.type], 0);
+  fields.writeUInt16BE(CLASS_IN | (record.cacheFlush ? CLASS_FLAG : 0), 2);
+  fields.writeUInt32BE(record.ttl, 4);
+  fields.writeUInt16BE(rdata.length, 8);
+  return Buffer.concat([encodeName(record.name), fields, rdata]);
+}
+
+function encodeRecordData(record: DnsRecord): Buffer {
+  switch (record.type) {
+    case "A":
+      return Buffer.from(record.address.split(".").map(Number));
+    case "PTR":
+      return encodeName(record.target);
+    case "TXT": {
+      // An empty TXT record still needs a single empty string
+      const entries = record.entries.length > 0 ? record.entries : [""];
+      return Buffer.concat(
+        entries.map((entry) => {
+          const bytes = Buffer.from(entry, "utf-8");
+          if (bytes.length > 255) {
+            throw new Error(`TXT string too long: ${entry}`);
+          }
+          return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+        })
+      );
+    }
+    case "SRV": {
+      const fields = Buffer.alloc(6);
+      fields.writeUInt16BE(record.priority, 0);
+      fields.writeUInt16BE(record.weight, 2);
+      fields.writeUInt16BE(record.port, 4);
+      return Buffer.concat([fields, encodeName(record.target)]);
+    }
+  }
+}
+
+function decodeRecord(
+  buffer: Buffer,
+  offset: number
+): [DnsRecord | null, number] {
+  const [name, next] = decodeName(buffer, offset);
+  const type = buffer.readUInt16BE(next);
+  const cls = buffer.readUInt16BE(next + 2);
+  const ttl = buffer.readUInt32BE(next + 4);
+  const length = buffer.readUInt16BE(next + 8);
+  const start = next + 10;
+  const end = start + length;
+  const base = { name, ttl, cacheFlush: (cls & CLASS_FLAG) !== 0 };
+
+  switch (type) {
+    case RecordTypes.A:
+      return [
+        {
+          ...base,
+          type: "A",
+          address: [...buffer.subarray(start, end)].join("."),
+        },
+        end,
+      ];
+    case RecordTypes.PTR:
+      return [
+        { ...base, type: "PTR", target: decodeName(buffer, start)[0] },
+        end,
+      ];
+    case RecordTypes.TXT: {
+      const entries: string[] = [];
+      for (let i = start; i < end; i += 1 + buffer.readUInt8(i)) {
+        entries.push(
+          buffer.toString("utf-8", i + 1, i + 1 + buffer.readUInt8(i))
+        );
+      }
+      return [{ ...base, type: "TXT", entries }, end];
+    }
+    case RecordTypes.SRV:
+      return [
+        {
+          ...base,
+          type: "SRV",
+          priority: buffer.readUInt16BE(start),
+          weight: buffer.readUInt16BE(start + 2),
+          port: buffer.readUInt16BE(start + 4),
+          target: decodeName(buffer, start + 6)[0],
+        },
+        end,
+      ];
+    default:
+      // Record types we do not use are skipped
+      return [null, end];
+  }
+}
@@ -0,0 +1,386 @@
+import * as dgram from "dgram";
+import {
+  decodePacket,
+  DnsPacket,
+  DnsQuestion,
+  DnsRecord,
+  encodePacket,
+  namesEqual,
+  RecordTypes,
+  RESPONSE_FLAGS,
+} from "./dns-packet";
+
+export const MDNS_ADDRESS = "224.0.0.251";
+export const MDNS_PORT = 5353;
+export const SERVICE_TYPE = "_aircodum._tcp";
+
+const SERVICES_NAME = ["_services", "_dns-sd", "_udp", "local"];
+// RFC 6762 section 10: host records get a short TTL, everything else 75 minutes
+const HOST_TTL = 120; // seconds
+const SERVICE_TTL = 4500; // seconds
+const LEGACY_TTL = 10; // seconds
+const ANNOUNCE_INTERVAL = 1000; // ms
+const MAX_LABEL_LENGTH = 63; // bytes
+const MAX_TXT_LENGTH = 255; // bytes
+
+export interface ServiceDescription {
+  // Instance name shown by browsers, e.g. "my-laptop (my-project)"
+  name: string;
+  // Host name without ".local"
+  host: string;
+  port: number;
+  addresses: string[];
+  txt: Record<string, string>;
+}
+
+export interface AdvertiserOptions {
+  // Only overridden by tests, which cannot rely on 5353 being free
+  port?: number;
+  // Local IPv4 address to send and receive multicast on
+  interfaceAddress?: string;
+}
+
+/**
+ * Answers multicast DNS queries for a single DNS-SD service instance.
+ * Probing for name conflicts is not implemented; host and instance names are
+ * derived from the machine name, which is already unique on the network.
+ */
+export class MdnsAdvertiser {
+  private socket: dgram.Socket | null = null;
+  private announceTimer: NodeJS.Timeout | null = null;
+  private readonly port: number;
+  private readonly serviceName: string[];
+  private readonly instanceName: string[];
+  private readonly hostName: string[];
+  private addresses: string[];
+
+  constructor(
+    private readonly service: ServiceDescription,
+    private readonly options: AdvertiserOptions = {}
+  ) {
+    this.port = options.port ?? MDNS_PORT;
+    this.serviceName = [...SERVICE_TYPE.split("."), "local"];
+    this.instanceName = [service.name, ...this.serviceName];
+    this.hostName = [service.host, "local"];
+    this.addresses = [...service.addresses];
+  }
+
+  /**
+   * Join the multicast group and announce the service.
+   */
+  async start(): Promise<void> {
+    const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+    socket.on("message", (message, rinfo) =>
+      this.handleMessage(message, rinfo)
+    );
+    socket.on("error", (error) => console.error("mDNS socket error:", error));
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("error", reject);
+      socket.bind(this.port, () => {
+        socket.off("error", reject);
+        resolve();
+      });
+    });
+
+    const { interfaceAddress } = this.options;
+    try {
+      socket.addMembership(MDNS_ADDRESS, interfaceAddress);
+      if (interfaceAddress) {
+        socket.setMulticastInterface(interfaceAddress);
+      }
+      socket.setMulticastTTL(255);
+      socket.setMulticastLoopback(true);
+    } catch (error) {
+      // e.g. the interface went away, or has no multicast route
+      await new Promise<void>((resolve) => socket.close(() => resolve()));
+      throw error;
+    }
+    this.socket = socket;
+    this.announceTwice();
+  }
+
+  /**
+   * Announce the addresses the service is now reachable on, e.g. after the
+   * network changed. Address records flush browsers' caches, so the old
+   * addresses are dropped.
+   * @param addresses
+   */
+  updateAddresses(addresses: string[]) {
+    if (addresses.join() === this.addresses.join()) return;
+    this.addresses = [...addresses];
+    this.announceTwice();
+  }
+
+  /**
+   * Send a goodbye so browsers drop the service, then close the socket.
+   */
+  async stop(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+
+    if (this.announceTimer) {
+      clearTimeout(this.announceTimer);
+      this.announceTimer = null;
+    }
+
+    await this.send(
+      socket,
+      this.buildAnnouncement(true),
+      MDNS_ADDRESS,
+      this.port
+    ).catch((error) => console.error("Error sending mDNS goodbye:", error));
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+  }
+
+  // Announce twice, one second apart (RFC 6762 sections 8.3 and 8.4)
+  private announceTwice() {
+    if (this.announceTimer) {
+      clearTimeout(this.announceTimer);
+    }
+    this.announce();
+    this.announceTimer = setTimeout(() => {
+      this.announceTimer = null;
+      this.announce();
+    }, ANNOUNCE_INTERVAL);
+    this.announceTimer.unref();
+  }
+
+  private announce() {
+    if (!this.socket) return;
+    this.send(
+      this.socket,
+      this.buildAnnouncement(false),
+      MDNS_ADDRESS,
+      this.port
+    ).catch((error) =>
+      console.error("Error sending mDNS announcement:", error)
+    );
+  }
+
+  private buildAnnouncement(goodbye: boolean): DnsPacket {
+    const records = [
+      this.servicesRecord(),
+      this.pointerRecord(),
+      this.srvRecord(),
+      this.txtRecord(),
+      ...this.addressRecords(),
+    ];
+    return {
+      id: 0,
+      flags: RESPONSE_FLAGS,
+      questions: [],
+      answers: goodbye ? records.map((r) => ({ ...r, ttl: 0 })) : records,
+      additionals: [],
+    };
+  }
+
+  private handleMessage(message: Buffer, rinfo: dgram.RemoteInfo) {
+    let query: DnsPacket;
+    try {
+      query = decodePacket(message);
+    } catch (error) {
+      // Other responders on the network may send anything
+      return;
+    }
+    // Ignore responses, including our own announcements looped back
+    if (query.flags & 0x8000 || query.questions.length === 0) {
+      return;
+    }
+
+    const answers: DnsRecord[] = [];
+    const additionals: DnsRecord[] = [];
+    for (const question of query.questions) {
+      this.answerQuestion(question, answers, additionals);
+    }
+    const knownAnswers = query.answers;
+    const fresh = answers.filter(
+      (answer) => !knownAnswers.some((known) => isKnownAnswer(known, answer))
+    );
+    if (fresh.length === 0 || !this.socket) {
+      return;
+    }
+    const extra = additionals.filter(
+      (record) => !fresh.some((answer) => sameRecord(answer, record))
+    );
+
+    // Queries not sent from the mDNS port come from simple "legacy" resolvers,
+    // which expect a unicast reply echoing their id and questions (section 6.7)
+    const legacy = rinfo.port !== this.port;
+    const unicast = legacy || query.questions.some((q) => q.unicastResponse);
+    const response: DnsPacket = legacy
+      ? {
+          id: query.id,
+          flags: RESPONSE_FLAGS,
+          questions: query.questions,
+          answers: fresh.map(toLegacy),
+          additionals: extra.map(toLegacy),
+        }
+      : {
+          id: 0,
+          flags: RESPONSE_FLAGS,
+          questions: [],
+          answers: fresh,
+          additionals: extra,
+        };
+
+    this.send(
+      this.socket,
+      response,
+      unicast ? rinfo.address : MDNS_ADDRESS,
+      unicast ? rinfo.port : this.port
+    ).catch((error) => console.error("Error sending mDNS response:", error));
+  }
+
+  private answerQuestion(
+    question: DnsQuestion,
+    answers: DnsRecord[],
+    additionals: DnsRecord[]
+  ) {
+    const wants = (type: number) =>
+      question.type === type || question.type === RecordTypes.ANY;
+
+    if (namesEqual(question.name, SERVICES_NAME) && wants(RecordTypes.PTR)) {
+      answers.push(this.servicesRecord());
+    } else if (
+      namesEqual(question.name, this.serviceName) &&
+      wants(RecordTypes.PTR)
+    ) {
+      answers.push(this.pointerRecord());
+      additionals.push(
+        this.srvRecord(),
+        this.txtRecord(),
+        ...this.addressRecords()
+      );
+    } else if (namesEqual(question.name, this.instanceName)) {
+      if (wants(RecordTypes.SRV)) {
+        answers.push(this.srvRecord());
+        additionals.push(...this.addressRecords());
+      }
+      if (wants(RecordTypes.TXT)) {
+        answers.push(this.txtRecord());
+      }
+    } else if (
+      namesEqual(question.name, this.hostName) &&
+      wants(RecordTypes.A)
+    ) {
+      answers.push(...this.addressRecords());
+    }
+  }
+
+  private servicesRecord(): DnsRecord {
+    return {
+      type: "PTR",
+      name: SERVICES_NAME,
+      ttl: SERVICE_TTL,
+      target: this.serviceName,
+    };
+  }
+
+  private pointerRecord(): DnsRecord {
+    return {
+      type: "PTR",
+      name: this.serviceName,
+      ttl: SERVICE_TTL,
+      target: this.instanceName,
+    };
+  }
+
+  private srvRecord(): DnsRecord {
+    return {
+      type: "SRV",
+      name: this.instanceName,
+      ttl: HOST_TTL,
+      cacheFlush: true,
+      priority: 0,
+      weight: 0,
+      port: this.service.port,
+      target: this.hostName,
+    };
+  }
+
+  private txtRecord(): DnsRecord {
+    return {
+      type: "TXT",
+      name: this.instanceName,
+      ttl: SERVICE_TTL,
+      cacheFlush: true,
+      // Long values, such as a workspace name, are cut short to fit
+      entries: Object.entries(this.service.txt).map(([key, value]) =>
+        truncateUtf8(`${key}=${value}`, MAX_TXT_LENGTH)
+      ),
+    };
+  }
+
+  private addressRecords(): DnsRecord[] {
+    return this.addresses.map((address) => ({
+      type: "A" as const,
+      name: this.hostName,
+      ttl: HOST_TTL,
+      cacheFlush: true,
+      address,
+    }));
+  }
+
+  private send(
+    socket: dgram.Socket,
+    packet: DnsPacket,
+    address: string,
+    port: number
+  ): Promise<void> {
+    const data = encodePacket(packet);
+    return new Promise((resolve, reject) => {
+      socket.send(data, port, address, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+}
+
+/**
+ * Trim a name to fit a single DNS label (63 bytes) without splitting a character.
+ * @param name
+ */
+export function toDnsLabel(name: string): string {
+  return truncateUtf8(name, MAX_LABEL_LENGTH).trim();
+}
+
+function truncateUtf8(text: string, maxBytes: number): string {
+  let truncated = "";
+  for (const char of text) {
+    if (Buffer.byteLength(truncated + char) > maxBytes) break;
+    truncated += char;
+  }
+  return truncated;
+}
+
+/**
+ * Known-answer suppression: skip records the querier already has with at
+ * least half their TTL left (RFC 6762 section 7.1).
+ */
+function isKnownAnswer(known: DnsRecord, answer: DnsRecord): boolean {
+  return sameRecord(known, answer) && known.ttl >= answer.ttl / 2;
+}
+
+function sameRecord(a: DnsRecord, b: DnsRecord): boolean {
+  if (a.type !== b.type || !namesEqual(a.name, b.name)) {
+    return false;
+  }
+  switch (a.type) {
+    case "PTR":
+      return namesEqual(a.target, (b as typeof a).target);
+    case "A":
+      return a.address === (b as typeof a).address;
+    default:
+      return true;
+  }
+}
+
+function toLegacy(record: DnsRecord): DnsRecord {
+  return {
+    ...record,
+    cacheFlush: false,
+    ttl: Math.min(record.ttl, LEGACY_TTL),
+  };
+}
@@ -17,19 +17,97 @@
  */
 
 import * as vscode from "vscode";
-import { getIPAddress } from "./utils";
+import { getNetworkAddresses } from "./utils";
+import { updateAdvertisedAddresses } from "./discovery/advertise";
 import { store } from "./state/store";
 import {
   setServerAddress,
+  setServerAddresses,
+  setServerPort,
   setServerRunning,
+  setServerTlsRenewedAt,
   setWebviewPanel,
 } from "./state/actions";
-import { startServer, stopServer } from "./server";
+import {
+  closeServer,
+  revokePairedDevice,
+  startServer,
+  startSessionRecording,
+  stopServer,
+} from "./server";
+import {
+  affectsServerConfig,
+  getReachableAddresses,
+  getServerConfig,
+  resolveBindAddress,
+  resolveDisplayAddress,
+  ServerConfig,
+} from "./config";
 import { createWebviewPanel } from "./webview";
+import { getPairedDevices, initPairing } from "./security/pairing";
+import { loadOrCreateCertificate } from "./security/certificate";
+import { initAuditLog, showAuditLog } from "./audit/log";
+import { watchMacros } from "./commanding/macros";
+import {
+  initRecording,
+  isRecording,
+  stopRecording,
+} from "./recording/recorder";
+import {
+  exportImageSequence,
+  openReplayPanel,
+  pickRecording,
+  RecordingFile,
+} from "./recording/replay";
+
+const ADDRESS_CHECK_INTERVAL = 10000; // ms
+
+/**
+ * Refresh the addresses shown to devices, if the network changed.
+ * @param config
+ */
+function updateServerAddresses(config: ServerConfig) {
+  const { server } = store.getState();
+  const address = resolveDisplayAddress(config);
+  const addresses = getReachableAddresses(config);
+  if (address !== server.address) {
+    setServerAddress(address);
+  }
+  if (addresses.join() !== server.addresses.join()) {
+    setServerAddresses(addresses);
+    updateAdvertisedAddresses();
+  }
+}
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("AirCodum Extension is now active!");
 
+  const pairingReady = initPairing(context);
+  initAuditLog(context);
+  initRecording(context);
+  watchMacros(context);
+
+  const startConfiguredServer = async () => {
+    // Connections can only be authenticated once paired devices are loaded
+    await pairingReady;
+
+    const config = getServerConfig();
+    const tls = config.useTls
+      ? await loadOrCreateCertificate(context.globalStorageUri.fsPath)
+      : null;
+    if (tls?.renewed) {
+      // Devices pinned the old fingerprint and now fail TLS until they trust the new one
+      setServerTlsRenewedAt(Date.now());
+      vscode.window.showWarningMessage(
+        `AirCodum renewed its TLS certificate. Paired devices must scan the QR code in the AirCodum webview again to trust the new fingerprint: ${tls.fingerprint}`
+      );
+    }
+    setServerPort(config.port);
+    await startServer(resolveBindAddress(config), tls);
+    setServerRunning(true);
+    updateServerAddresses(config);
+  };
+
   const startServerAndWebview = async () => {
     if (store.getState().server.isRunning) {
       vscode.window.showInformationMessage(
@@ -38,11 +116,31 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    const address = getIPAddress();
-    await startServer('0.0.0.0');
-    setServerRunning(true);
-    setServerAddress(address);
-    createWebviewPanel(context, address);
+    try {
+      await startConfiguredServer();
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to start AirCodum server: ${error.message}`
+      );
+      return;
+    }
+    createWebviewPanel(context, store.getState().server.address!);
+  };
+
+  // Settings can change again mid-restart, so restarts run one after another
+  let restarting = Promise.resolve();
+  const restartServer = () => {
+    restarting = restarting.then(async () => {
+      await closeServer();
+      try {
+        await startConfiguredServer();
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to restart AirCodum server: ${error.message}`
+        );
+      }
+    });
+    return restarting;
   };
 
   const startServerCommand = vscode.commands.registerCommand(
@@ -71,31 +169,199 @@ export function activate(context: vscode.ExtensionContext) {
     stopServer
   );
 
+  const manageDevicesCommand = vscode.commands.registerCommand(
+    "extension.manageAirCodumDevices",
+    async () => {
+      await pairingReady;
+      const devices = getPairedDevices();
+      if (devices.length === 0) {
+        vscode.window.showInformationMessage(
+          "No devices are paired with AirCodum."
+        );
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        devices.map((device) => ({
+          label: device.name,
+          description: device.lastSeenAt
+            ? `last seen ${new Date(device.lastSeenAt).toLocaleString()}`
+            : undefined,
+          deviceId: device.id,
+        })),
+        { placeHolder: "Select a device to revoke" }
+      );
+      if (!picked) return;
+      const confirmed = await vscode.window.showWarningMessage(
+        `Revoke "${picked.label}"? It will have to pair again to connect.`,
+        { modal: true },
+        "Revoke"
+      );
+      if (confirmed === "Revoke") {
+        await revokePairedDevice(picked.deviceId);
+      }
+    }
+  );
+
+  const showAuditLogCommand = vscode.commands.registerCommand(
+    "extension.showAirCodumAuditLog",
+    showAuditLog
+  );
+
+  const selectInterfaceCommand = vscode.commands.registerCommand(
+    "extension.selectAirCodumNetworkInterface",
+    async () => {
+      const picked = await vscode.window.showQuickPick(
+        getNetworkAddresses().map((address) => ({
+          label: address.interfaceName,
+          description: `${address.address} (${address.family})`,
+        })),
+        { placeHolder: "Select the network interface devices connect through" }
+      );
+      if (!picked) return;
+      // Saving the setting restarts a running server through the listener below
+      await vscode.workspace
+        .getConfiguration("aircodum")
+        .update(
+          "networkInterface",
+          picked.label,
+          vscode.ConfigurationTarget.Global
+        );
+    }
+  );
+
+  const startRecordingCommand = vscode.commands.registerCommand(
+    "extension.startAirCodumRecording",
+    async () => {
+      if (isRecording()) {
+        vscode.window.showInformationMessage(
+          "An AirCodum session is already being recorded."
+        );
+        return;
+      }
+      try {
+        await startSessionRecording();
+        vscode.window.showInformationMessage(
+          'Recording the AirCodum session. Run "Stop AirCodum Recording" to finish.'
+        );
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to start recording: ${error.message}`
+        );
+      }
+    }
+  );
+
+  const stopRecordingCommand = vscode.commands.registerCommand(
+    "extension.stopAirCodumRecording",
+    async () => {
+      const filePath = await stopRecording();
+      if (!filePath) {
+        vscode.window.showInformationMessage(
+          "No AirCodum session is being recorded."
+        );
+        return;
+      }
+      const action = await vscode.window.showInformationMessage(
+        `Recording saved to ${filePath}`,
+        "Replay"
+      );
+      if (action === "Replay") {
+        await openReplayPanel(context, filePath);
+      }
+    }
+  );
+
+  const replayRecordingCommand = vscode.commands.registerCommand(
+    "extension.replayAirCodumRecording",
+    async () => {
+      const filePath = await pickRecording();
+      if (!filePath) return;
+      try {
+        await openReplayPanel(context, filePath);
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to open recording: ${error.message}`
+        );
+      }
+    }
+  );
+
+  const exportRecordingCommand = vscode.commands.registerCommand(
+    "extension.exportAirCodumRecording",
+    async () => {
+      const filePath = await pickRecording();
+      if (!filePath) return;
+      const target = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: "Export Here",
+      });
+      if (!target?.[0]) return;
+      try {
+        const recording = await RecordingFile.open(filePath);
+        const frames = await exportImageSequence(
+          recording,
+          target[0].fsPath
+        ).finally(() => recording.close());
+        vscode.window.showInformationMessage(
+          `Exported ${frames} frames to ${target[0].fsPath}`
+        );
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to export recording: ${error.message}`
+        );
+      }
+    }
+  );
+
+  const configurationListener = vscode.workspace.onDidChangeConfiguration(
+    (event) => {
+      if (affectsServerConfig(event) && store.getState().server.isRunning) {
+        restartServer();
+      }
+    }
+  );
+
   context.subscriptions.push(
     startServerCommand,
     stopServerCommand,
-    openWebViewCommand
+    openWebViewCommand,
+    manageDevicesCommand,
+    showAuditLogCommand,
+    selectInterfaceCommand,
+    startRecordingCommand,
+    stopRecordingCommand,
+    replayRecordingCommand,
+    exportRecordingCommand,
+    configurationListener
   );
 
-  // Subscribe to state changes
-  const unsubscribe = store.subscribe((state) => {
-    console.log("State updated:", state);
-    // You can perform actions based on state changes here
-  });
+  // Devices roam between networks, so keep the advertised addresses current
+  const addressWatcher = setInterval(() => {
+    if (!store.getState().server.isRunning) return;
+    try {
+      updateServerAddresses(getServerConfig());
+    } catch (error) {
+      console.error("Error checking network addresses:", error);
+    }
+  }, ADDRESS_CHECK_INTERVAL);
+  addressWatcher.unref();
+  context.subscriptions.push({ dispose: () => clearInterval(addressWatcher) });
 
-  context.subscriptions.push({ dispose: unsubscribe });
+  if (getServerConfig().autoStart) {
+    startConfiguredServer().catch((error) => {
+      console.error("Error auto-starting AirCodum server:", error);
+    });
+  }
 }
 
-export function deactivate() {
-  const wss = store.getState().websocket.wss;
+export async function deactivate() {
   const panel = store.getState().webview.panel;
-  if (wss) {
-    wss.close(() => {
-      console.log("WebSocket server closed.");
-    });
-  }
   if (panel) {
     panel.dispose();
     setWebviewPanel(null);
   }
+  await stopRecording();
+  await closeServer();
 }
@@ -83,7 +83,11 @@ function determineFileType(buffer: Buffer): MessageType {
   return "binary";
 }
 
-function isImage(buffer: Buffer): boolean {
+/**
+ * Whether the buffer holds a PNG, JPEG or GIF image.
+ * @param buffer
+ */
+export function isImage(buffer: Buffer): boolean {
   const fileSignature = buffer.toString("hex", 0, 4).toUpperCase();
   return (
     fileSignature.startsWith("89504E47") || // PNG
@@ -109,6 +113,16 @@ function getFileExtension(buffer: Buffer, fileType: MessageType): string {
   }
 }
 
+/**
+ * Where a received file was saved, and what AI read from it if it is an image.
+ */
+export interface FileUploadResult {
+  fileName: string;
+  fileType: string;
+  filePath: string;
+  transcription?: string;
+}
+
 /**
  * Handle files sent by the app.
  * If the file is an image, transcribe it using OpenAI.
@@ -116,7 +130,10 @@ function getFileExtension(buffer: Buffer, fileType: MessageType): string {
  * @param ws
  * @returns
  */
-export async function handleFileUpload(fileBuffer: Buffer, ws: WebSocket) {
+export async function handleFileUpload(
+  fileBuffer: Buffer,
+  ws: WebSocket
+): Promise<FileUploadResult> {
   const panel = store.getState().webview.panel;
   try {
     const fileInfo = await saveFile(fileBuffer);
@@ -124,6 +141,7 @@ export async function handleFileUpload(fileBuffer: Buffer, ws: WebSocket) {
       type: "file",
       ...fileInfo,
     });
+    const { fileName, fileType, filePath } = fileInfo;
 
     const apiKey = getApiKey();
     if (!apiKey) {
@@ -131,7 +149,7 @@ export async function handleFileUpload(fileBuffer: Buffer, ws: WebSocket) {
         type: "error",
         message: "OpenAI API key not found. Please enter your API key.",
       });
-      return;
+      return { fileName, fileType, filePath };
     }
 
     if (fileInfo.fileType === "image") {
@@ -140,11 +158,14 @@ export async function handleFileUpload(fileBuffer: Buffer, ws: WebSocket) {
         type: "transcription",
         text: transcription,
       });
+      return { fileName, fileType, filePath, transcription };
     }
+    return { fileName, fileType, filePath };
   } catch (error: any) {
     panel?.webview.postMessage({
       type: "error",
       message: "Error processing file: " + error.message,
     });
+    throw error;
   }
 }
@@ -0,0 +1,74 @@
+import { createRobotJSBackend } from "./robotjs";
+
+export type MouseButton = "left" | "right" | "middle";
+
+/**
+ * Injects keyboard and mouse input into the desktop. Remote input goes
+ * through the current backend, so that it can be replaced, e.g. in tests.
+ */
+export interface InputBackend {
+  typeString(text: string): void;
+  keyTap(key: string, modifiers?: string | string[]): void;
+  // Hold a key down until it is toggled up again
+  keyToggle(key: string, state: "down" | "up", modifiers?: string[]): void;
+  // Pause after each keystroke from now on
+  setKeyboardDelay(ms: number): void;
+  moveMouse(x: number, y: number): void;
+  mouseClick(button?: MouseButton, double?: boolean): void;
+  mouseToggle(state: "down" | "up", button?: MouseButton): void;
+  // Scroll by whole steps; positive y scrolls down and positive x right
+  scrollMouse(x: number, y: number): void;
+}
+
+/**
+ * Input cannot be injected on this machine, e.g. on a platform robotjs is
+ * not built for. Clients are told with the "input-unavailable" capability.
+ */
+export class InputUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`Remote input is unavailable on this machine: ${reason}`);
+    this.name = "InputUnavailableError";
+  }
+}
+
+let backend: InputBackend | null = null;
+// Why robotjs could not be loaded, so that loading is only attempted once
+let unavailableReason: string | null = null;
+
+/**
+ * The current backend, loading robotjs on first use.
+ * @throws InputUnavailableError when robotjs cannot be loaded
+ */
+export function getInputBackend(): InputBackend {
+  if (!backend) {
+    if (unavailableReason === null) {
+      try {
+        backend = createRobotJSBackend();
+      } catch (error: any) {
+        console.error("Error loading robotjs:", error);
+        unavailableReason = error.message as string;
+      }
+    }
+    if (!backend) {
+      throw new InputUnavailableError(unavailableReason!);
+    }
+  }
+  return backend;
+}
+
+export function isInputAvailable(): boolean {
+  try {
+    getInputBackend();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Inject input through another backend from now on.
+ * @param next
+ */
+export function setInputBackend(next: InputBackend) {
+  backend = next;
+}
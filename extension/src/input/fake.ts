@@ -0,0 +1,63 @@
+import { InputBackend, MouseButton } from "./backend";
+
+export interface InputCall {
+  method: keyof InputBackend;
+  args: unknown[];
+}
+
+/**
+ * Records input instead of injecting it, so that tests can assert what
+ * handlers would have done to the desktop.
+ */
+export class FakeInputBackend implements InputBackend {
+  public readonly calls: InputCall[] = [];
+
+  public typeString(text: string) {
+    this.record("typeString", text);
+  }
+
+  public keyTap(key: string, modifiers?: string | string[]) {
+    this.record(
+      "keyTap",
+      ...(modifiers === undefined ? [key] : [key, modifiers])
+    );
+  }
+
+  public keyToggle(key: string, state: "down" | "up", modifiers?: string[]) {
+    this.record(
+      "keyToggle",
+      ...(modifiers === undefined ? [key, state] : [key, state, modifiers])
+    );
+  }
+
+  public setKeyboardDelay(ms: number) {
+    this.record("setKeyboardDelay", ms);
+  }
+
+  public moveMouse(x: number, y: number) {
+    this.record("moveMouse", x, y);
+  }
+
+  public mouseClick(button?: MouseButton, double?: boolean) {
+    this.record("mouseClick", button ?? "left", double ?? false);
+  }
+
+  public mouseToggle(state: "down" | "up", button?: MouseButton) {
+    this.record("mouseToggle", state, button ?? "left");
+  }
+
+  public scrollMouse(x: number, y: number) {
+    this.record("scrollMouse", x, y);
+  }
+
+  /**
+   * Forget the calls recorded so far.
+   */
+  public reset() {
+    this.calls.length = 0;
+  }
+
+  private record(method: keyof InputBackend, ...args: unknown[]) {
+    this.calls.push({ method, args });
+  }
+}
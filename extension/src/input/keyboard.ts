@@ -0,0 +1,73 @@
+import { KeyboardEventMessage } from "../protocol/messages";
+import { InputBackend } from "./backend";
+import { isModifier, toRobotKey, toRobotModifiers } from "./keys";
+
+/**
+ * Keys a connection holds down, so that they can be released when it closes
+ * instead of staying stuck on the desktop.
+ */
+export class HeldKeys {
+  private keys = new Set<string>();
+
+  public add(key: string) {
+    this.keys.add(key);
+  }
+
+  public delete(key: string) {
+    this.keys.delete(key);
+  }
+
+  // Held modifiers, applied to every key pressed while they are down
+  public get modifiers(): string[] {
+    return [...this.keys].filter(isModifier);
+  }
+
+  /**
+   * Release every held key.
+   * @param input
+   */
+  public releaseAll(input: InputBackend) {
+    for (const key of this.keys) {
+      input.keyToggle(key, "up");
+    }
+    this.keys.clear();
+  }
+
+  public get size(): number {
+    return this.keys.size;
+  }
+}
+
+/**
+ * Inject a key event whose key can be pressed, translating the phone's key
+ * names for this platform. Modifiers held down by earlier events are passed
+ * along with each press, as macOS otherwise drops them from injected keys.
+ * @param input
+ * @param event
+ * @param held keys the connection's earlier events left down
+ * @throws when the key or a modifier is unknown on this platform
+ */
+export function injectKeyEvent(
+  input: InputBackend,
+  event: KeyboardEventMessage,
+  held: HeldKeys
+) {
+  const key = toRobotKey(event.key);
+  const modifiers = [
+    ...new Set([...held.modifiers, ...toRobotModifiers(event.modifier)]),
+  ].filter((modifier) => modifier !== key);
+
+  switch (event.eventType ?? "press") {
+    case "press":
+      input.keyTap(key, modifiers);
+      break;
+    case "down":
+      input.keyToggle(key, "down", modifiers);
+      held.add(key);
+      break;
+    case "up":
+      input.keyToggle(key, "up", modifiers);
+      held.delete(key);
+      break;
+  }
+}
@@ -0,0 +1,278 @@
+// Key names robotjs understands, besides single printable characters
+const ROBOTJS_KEYS = [
+  ...Array.from({ length: 24 }, (_, i) => `f${i + 1}`),
+  "insert",
+  "home",
+  "pageup",
+  "delete",
+  "end",
+  "pagedown",
+  "command",
+  "menu",
+  "alt",
+  "right_alt",
+  "control",
+  "left_control",
+  "right_control",
+  "shift",
+  "right_shift",
+  "space",
+  "backspace",
+  "enter",
+  "escape",
+  "tab",
+  "up",
+  "down",
+  "left",
+  "right",
+  "printscreen",
+  "capslock",
+  "numpad_lock",
+  ...Array.from({ length: 10 }, (_, i) => `numpad_${i}`),
+  "numpad_+",
+  "numpad_-",
+  "numpad_*",
+  "numpad_/",
+  "numpad_.",
+  "audio_mute",
+  "audio_vol_up",
+  "audio_vol_down",
+  "audio_play",
+  "audio_stop",
+  "audio_pause",
+  "audio_prev",
+  "audio_next",
+  "audio_rewind",
+  "audio_forward",
+  "audio_repeat",
+  "audio_random",
+  "lights_mon_up",
+  "lights_mon_down",
+  "lights_kbd_toggle",
+  "lights_kbd_up",
+  "lights_kbd_down",
+];
+
+// Keys robotjs can hold as modifiers of another key
+const MODIFIERS = [
+  "alt",
+  "right_alt",
+  "command",
+  "control",
+  "left_control",
+  "right_control",
+  "shift",
+  "right_shift",
+];
+
+// Keys robotjs has no key code for on a platform
+const UNSUPPORTED_KEYS: Partial<Record<NodeJS.Platform, string[]>> = {
+  darwin: [
+    "f21",
+    "f22",
+    "f23",
+    "f24",
+    "insert",
+    "printscreen",
+    "menu",
+    "numpad_lock",
+    "audio_stop",
+    "audio_rewind",
+    "audio_forward",
+    "audio_repeat",
+    "audio_random",
+  ],
+  linux: ["menu", ...ROBOTJS_KEYS.filter((key) => key.startsWith("numpad_"))],
+  win32: [
+    "audio_rewind",
+    "audio_forward",
+    "audio_repeat",
+    "audio_random",
+    ...ROBOTJS_KEYS.filter((key) => key.startsWith("lights_")),
+  ],
+};
+
+/**
+ * Names phones use for keys, lowercased, and the robotjs key each stands
+ * for: `KeyboardEvent.key` values from web views, Android `KeyEvent` codes
+ * and iOS `UIKeyInput` constants.
+ */
+const KEY_ALIASES: Record<string, string> = {
+  // KeyboardEvent.key
+  " ": "space",
+  arrowup: "up",
+  arrowdown: "down",
+  arrowleft: "left",
+  arrowright: "right",
+  esc: "escape",
+  return: "enter",
+  del: "delete",
+  ins: "insert",
+  pgup: "pageup",
+  pgdn: "pagedown",
+  contextmenu: "menu",
+  meta: "command",
+  os: "command",
+  super: "command",
+  win: "command",
+  cmd: "command",
+  ctrl: "control",
+  option: "alt",
+  altgraph: "right_alt",
+  numlock: "numpad_lock",
+  audiovolumemute: "audio_mute",
+  audiovolumeup: "audio_vol_up",
+  audiovolumedown: "audio_vol_down",
+  mediaplaypause: "audio_play",
+  mediastop: "audio_stop",
+  mediatrackprevious: "audio_prev",
+  mediatracknext: "audio_next",
+  // Android KeyEvent, where DEL is backspace
+  keycode_enter: "enter",
+  keycode_numpad_enter: "enter",
+  keycode_del: "backspace",
+  keycode_forward_del: "delete",
+  keycode_tab: "tab",
+  keycode_escape: "escape",
+  keycode_space: "space",
+  keycode_dpad_up: "up",
+  keycode_dpad_down: "down",
+  keycode_dpad_left: "left",
+  keycode_dpad_right: "right",
+  keycode_move_home: "home",
+  keycode_move_end: "end",
+  keycode_page_up: "pageup",
+  keycode_page_down: "pagedown",
+  keycode_insert: "insert",
+  keycode_caps_lock: "capslock",
+  keycode_num_lock: "numpad_lock",
+  keycode_sysrq: "printscreen",
+  keycode_menu: "menu",
+  keycode_shift_left: "shift",
+  keycode_shift_right: "right_shift",
+  keycode_ctrl_left: "control",
+  keycode_ctrl_right: "right_control",
+  keycode_alt_left: "alt",
+  keycode_alt_right: "right_alt",
+  keycode_meta_left: "command",
+  keycode_meta_right: "command",
+  keycode_volume_mute: "audio_mute",
+  keycode_volume_up: "audio_vol_up",
+  keycode_volume_down: "audio_vol_down",
+  keycode_media_play_pause: "audio_play",
+  keycode_media_stop: "audio_stop",
+  keycode_media_previous: "audio_prev",
+  keycode_media_next: "audio_next",
+  keycode_media_rewind: "audio_rewind",
+  keycode_media_fast_forward: "audio_forward",
+  ...Object.fromEntries(
+    Array.from({ length: 12 }, (_, i) => [`keycode_f${i + 1}`, `f${i + 1}`])
+  ),
+  ...Object.fromEntries(
+    Array.from({ length: 10 }, (_, i) => [`keycode_${i}`, `${i}`])
+  ),
+  ...Object.fromEntries(
+    Array.from({ length: 10 }, (_, i) => [`keycode_numpad_${i}`, `numpad_${i}`])
+  ),
+  ...Object.fromEntries(
+    Array.from({ length: 26 }, (_, i) => {
+      const letter = String.fromCharCode(97 + i);
+      return [`keycode_${letter}`, letter];
+    })
+  ),
+  // iOS UIKeyInput
+  uikeyinputuparrow: "up",
+  uikeyinputdownarrow: "down",
+  uikeyinputleftarrow: "left",
+  uikeyinputrightarrow: "right",
+  uikeyinputescape: "escape",
+  uikeyinputhome: "home",
+  uikeyinputend: "end",
+  uikeyinputpageup: "pageup",
+  uikeyinputpagedown: "pagedown",
+  uikeyinputdelete: "delete",
+  // Control characters typed by on-screen keyboards
+  "\n": "enter",
+  "\r": "enter",
+  "\t": "tab",
+  "\b": "backspace",
+};
+
+// Modifier the platform uses for shortcuts, so that a phone can send "mod"
+// with "c" to copy on any desktop
+const SHORTCUT_MODIFIERS = ["mod", "primary", "ctrlcmd"];
+
+/**
+ * A single character robotjs can tap, i.e. printable ASCII. Other
+ * characters have to be typed as text.
+ * @param key
+ */
+export function isTappableCharacter(key: string): boolean {
+  return key.length === 1 && key >= " " && key <= "~";
+}
+
+/**
+ * The robotjs key a phone's key name stands for. Names are case-insensitive,
+ * except single characters, which are tapped as they are.
+ * @param key
+ * @returns the key name, or undefined when robotjs has no key for it
+ */
+export function lookupKey(key: string): string | undefined {
+  const lower = key.toLowerCase();
+  if (SHORTCUT_MODIFIERS.includes(lower)) {
+    return process.platform === "darwin" ? "command" : "control";
+  }
+  return (
+    KEY_ALIASES[key] ??
+    KEY_ALIASES[lower] ??
+    (ROBOTJS_KEYS.includes(lower) ? lower : undefined) ??
+    (isTappableCharacter(key) ? key : undefined)
+  );
+}
+
+/**
+ * Translate a key name sent by a phone into the robotjs key name for this
+ * platform.
+ * @param key
+ * @throws when the key is unknown or cannot be pressed on this platform
+ */
+export function toRobotKey(key: string): string {
+  const name = lookupKey(key);
+  if (name === undefined) {
+    throw new Error(`Unknown key: ${key}`);
+  }
+  if (UNSUPPORTED_KEYS[process.platform]?.includes(name)) {
+    throw new Error(`The ${key} key cannot be pressed on this platform`);
+  }
+  return name;
+}
+
+/**
+ * Translate the modifiers of a key event into robotjs modifier names.
+ * @param modifier one modifier, a list of them, or undefined for none
+ * @throws when a modifier is unknown or is not a modifier key
+ */
+export function toRobotModifiers(modifier?: string | string[]): string[] {
+  const modifiers =
+    modifier === undefined
+      ? []
+      : Array.isArray(modifier)
+        ? modifier
+        : [modifier];
+  return modifiers.map((name) => {
+    const key = toRobotKey(name);
+    if (!MODIFIERS.includes(key)) {
+      throw new Error(`Not a modifier key: ${name}`);
+    }
+    return key;
+  });
+}
+
+/**
+ * Whether a robotjs key is a modifier, which is held across presses of
+ * other keys while it is down.
+ * @param key
+ */
+export function isModifier(key: string): boolean {
+  return MODIFIERS.includes(key);
+}
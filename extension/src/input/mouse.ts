@@ -0,0 +1,101 @@
+import { MouseEventMessage } from "../protocol/messages";
+import { InputBackend } from "./backend";
+
+// Screen pixels a two-finger pan travels per wheel step
+export const SCROLL_STEP_PIXELS = 40;
+// Wheel steps one event can scroll, so that a single message cannot fling
+// a document far away
+export const MAX_SCROLL_STEPS = 20;
+
+function clampSteps(steps: number): number {
+  return Math.max(-MAX_SCROLL_STEPS, Math.min(MAX_SCROLL_STEPS, steps));
+}
+
+/**
+ * Turns the distance two fingers pan into whole wheel steps. What is left
+ * over carries into the next pan event, so that slow pans still scroll.
+ */
+export class ScrollAccumulator {
+  private x = 0;
+  private y = 0;
+
+  /**
+   * @param dx horizontal pan, in screen pixels
+   * @param dy vertical pan, in screen pixels
+   * @returns the whole steps to scroll now
+   */
+  public add(dx: number, dy: number): { x: number; y: number } {
+    this.x += dx / SCROLL_STEP_PIXELS;
+    this.y += dy / SCROLL_STEP_PIXELS;
+    const steps = { x: Math.trunc(this.x), y: Math.trunc(this.y) };
+    this.x -= steps.x;
+    this.y -= steps.y;
+    return steps;
+  }
+
+  public reset() {
+    this.x = 0;
+    this.y = 0;
+  }
+}
+
+/**
+ * Inject a mouse event at a position already mapped to the screen. Touch
+ * gestures do what they mean on a desktop: a long press right-clicks, and
+ * a two-finger pan drags the content under the fingers, like a touchpad.
+ * @param input
+ * @param event
+ * @param position where the event happened, in mouse coordinates
+ * @param scale screen pixels per client pixel, to convert pans
+ * @param scroll pan distance left over from the connection's earlier events
+ */
+export function injectMouseEvent(
+  input: InputBackend,
+  event: MouseEventMessage,
+  position: { x: number; y: number },
+  scale: number,
+  scroll: ScrollAccumulator
+) {
+  input.moveMouse(position.x, position.y);
+
+  const button = event.button ?? "left";
+  switch (event.eventType) {
+    case "down":
+    case "up":
+      // Moves in between drag with the button held
+      input.mouseToggle(event.eventType, button);
+      break;
+    case "click": {
+      const clickCount = event.clickCount ?? 1;
+      input.mouseClick(button, clickCount >= 2);
+      // A third click right after a double click selects a line or paragraph
+      if (clickCount === 3) {
+        input.mouseClick(button, false);
+      }
+      break;
+    }
+    case "scroll":
+      input.scrollMouse(
+        clampSteps(event.deltaX ?? 0),
+        clampSteps(event.deltaY ?? 0)
+      );
+      break;
+    case "long-press":
+      input.mouseClick("right", false);
+      break;
+    case "two-finger-scroll": {
+      // Fingers moving up drag the content up, scrolling down
+      const steps = scroll.add(
+        -(event.deltaX ?? 0) * scale,
+        -(event.deltaY ?? 0) * scale
+      );
+      if (steps.x !== 0 || steps.y !== 0) {
+        input.scrollMouse(clampSteps(steps.x), clampSteps(steps.y));
+      }
+      break;
+    }
+    case "move":
+      // Already moved above
+      break;
+  }
+}
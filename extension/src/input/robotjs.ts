@@ -0,0 +1,92 @@
+import * as path from "path";
+import os from "os";
+import { InputBackend } from "./backend";
+
+// Type definition for the robotjs module
+export interface RobotJS {
+  typeString(text: string): void;
+  keyTap(key: string, modifiers?: string | string[]): void;
+  keyToggle(key: string, down: string, modifiers?: string | string[]): void;
+  setKeyboardDelay(ms: number): void;
+  moveMouse(x: number, y: number): void;
+  mouseClick(button?: string, double?: boolean): void;
+  mouseToggle(down: string, button?: string): void;
+  scrollMouse(x: number, y: number): void;
+  getScreenSize(): { width: number; height: number };
+}
+
+let robot: RobotJS | null = null;
+
+// robotjs scrolls in platform units per wheel step: notches on Linux,
+// 1/120 of one on Windows and pixels on macOS
+const SCROLL_UNITS: Partial<Record<NodeJS.Platform, number>> = {
+  win32: 120,
+  darwin: 40,
+};
+
+/**
+ * Path of the prebuilt native module for this machine, copied next to the
+ * bundle at build time, or null when none is shipped for it.
+ */
+function getNativeModulePath(): string | null {
+  const file = "@hurdlegroup+robotjs.node";
+  switch (process.platform) {
+    case "darwin":
+      return path.join(__dirname, "darwin-x64+arm64", file);
+    case "linux":
+      return os.arch() === "x64"
+        ? path.join(__dirname, "linux-x64", file)
+        : null;
+    case "win32":
+      return path.join(
+        __dirname,
+        os.arch() === "x64" ? "win32-x64" : "win32-ia32",
+        file
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Load the robotjs native module for this platform, once.
+ * @throws when no module is shipped for this platform or it fails to load
+ */
+export function loadRobotJS(): RobotJS {
+  if (!robot) {
+    const modulePath = getNativeModulePath();
+    if (!modulePath) {
+      throw new Error(`Unsupported platform: ${process.platform}-${os.arch()}`);
+    }
+    robot = require(modulePath) as RobotJS;
+  }
+  return robot;
+}
+
+/**
+ * Input injected through a fork of the `robotjs` library.
+ */
+export function createRobotJSBackend(): InputBackend {
+  const robot = loadRobotJS();
+  return {
+    typeString: (text) => robot.typeString(text),
+    keyTap: (key, modifiers) =>
+      modifiers && modifiers.length > 0
+        ? robot.keyTap(key, modifiers)
+        : robot.keyTap(key),
+    keyToggle: (key, state, modifiers) =>
+      modifiers && modifiers.length > 0
+        ? robot.keyToggle(key, state, modifiers)
+        : robot.keyToggle(key, state),
+    setKeyboardDelay: (ms) => robot.setKeyboardDelay(ms),
+    moveMouse: (x, y) => robot.moveMouse(x, y),
+    mouseClick: (button = "left", double = false) =>
+      robot.mouseClick(button, double),
+    mouseToggle: (state, button = "left") => robot.mouseToggle(state, button),
+    scrollMouse: (x, y) => {
+      // Positive values scroll left and up in robotjs
+      const unit = SCROLL_UNITS[process.platform] ?? 1;
+      robot.scrollMouse(-x * unit, -y * unit);
+    },
+  };
+}
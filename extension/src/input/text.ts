@@ -0,0 +1,49 @@
+import * as vscode from "vscode";
+import { getInputBackend } from "./backend";
+import { borrowClipboard } from "../clipboard/sync";
+
+// Time the focused application gets to read the clipboard before it is restored
+const PASTE_DELAY_MS = 200;
+
+/**
+ * Whether robotjs can type the text key by key. It looks up a key for each
+ * character, which mangles anything beyond ASCII, such as accented letters,
+ * emoji or text composed by an IME.
+ * @param text
+ */
+export function isTypeable(text: string): boolean {
+  return /^[\x20-\x7e\t\n]*$/.test(text);
+}
+
+/**
+ * Type text where the user is typing. Text goes straight into the editor
+ * through VS Code's `type` command when VS Code is focused on one, so that
+ * any character arrives intact and auto-closing brackets still apply.
+ * @param text
+ */
+export async function typeText(text: string) {
+  if (vscode.window.state.focused && vscode.window.activeTextEditor) {
+    await vscode.commands.executeCommand("type", { text });
+    return;
+  }
+  await typeAtFocus(text);
+}
+
+/**
+ * Type text into whatever has the keyboard focus on the desktop. Text robotjs
+ * cannot type is pasted through the clipboard, which is restored afterwards.
+ * @param text
+ * @throws InputUnavailableError when input cannot be injected
+ */
+export async function typeAtFocus(text: string) {
+  const input = getInputBackend();
+  if (isTypeable(text)) {
+    input.typeString(text);
+    return;
+  }
+
+  await borrowClipboard(text, async () => {
+    input.keyTap("v", process.platform === "darwin" ? "command" : "control");
+    await new Promise((resolve) => setTimeout(resolve, PASTE_DELAY_MS));
+  });
+}
@@ -52,8 +52,41 @@ export async function createImageHash(input: Buffer | string): Promise<string> {
   return image.hash();
 }
 
+/**
+ * Encode raw RGBA pixels, such as a tile cropped from a frame, as a JPEG.
+ */
+export async function encodeJpeg(
+  bitmap: { data: Buffer; width: number; height: number },
+  quality: number
+): Promise<Buffer> {
+  return Jimp.fromBitmap(bitmap).getBuffer('image/jpeg', { quality });
+}
+
+/**
+ * Draw images onto a blank canvas, each scaled to fill its rectangle.
+ * Used to stitch the screenshots of several displays into one desktop.
+ */
+export async function composeImages(
+  width: number,
+  height: number,
+  parts: Array<{ image: Buffer; x: number; y: number; width: number; height: number }>,
+  mime: 'image/bmp' | 'image/png' = 'image/bmp'
+): Promise<Buffer> {
+  const canvas = new Jimp({ width, height, color: 0x000000ff });
+  for (const part of parts) {
+    const image = await createImage(part.image);
+    if (image.width !== part.width || image.height !== part.height) {
+      image.resize({ w: part.width, h: part.height });
+    }
+    canvas.composite(image, part.x, part.y);
+  }
+  return canvas.getBuffer(mime);
+}
+
 export default {
   createImage,
   resizeImage,
-  createImageHash
+  createImageHash,
+  encodeJpeg,
+  composeImages
 };
\ No newline at end of file
@@ -0,0 +1,149 @@
+/**
+ * Binary screen frames, sent instead of `screen-update` JSON messages to
+ * clients that announce the "binary-frames" capability.
+ *
+ * Layout, big-endian:
+ *   0  uint8    frame kind (1 = full screen image, 2 = changed tiles)
+ *   1  uint8    codec (1 = JPEG, 2 = PNG)
+ *   2  uint16   header length in bytes, so fields can be appended later
+ *   4  uint32   sequence number, per connection, starting at 0
+ *   8  uint16   image width
+ *   10 uint16   image height
+ *   12 float64  capture timestamp, ms since the epoch
+ *   20 ...      payload
+ *
+ * The payload of a full screen frame is the encoded image. The payload of a
+ * tiles frame patches the last image the client drew, at the width and height
+ * in the header:
+ *   0  uint16   tile count
+ *   then per tile:
+ *   0  uint16   x
+ *   2  uint16   y
+ *   4  uint16   width
+ *   6  uint16   height
+ *   8  uint32   image length
+ *   12 ...      encoded tile image
+ */
+
+export type FrameCodec = "jpeg" | "png";
+
+export const FrameKinds = {
+  screen: 1,
+  tiles: 2,
+} as const;
+
+export type FrameKind = keyof typeof FrameKinds;
+
+const Codecs: Record<FrameCodec, number> = {
+  jpeg: 1,
+  png: 2,
+};
+
+export const FRAME_HEADER_LENGTH = 20;
+const TILE_HEADER_LENGTH = 12;
+
+export interface FrameHeader {
+  kind: FrameKind;
+  codec: FrameCodec;
+  sequence: number;
+  width: number;
+  height: number;
+  timestamp: number;
+}
+
+export interface EncodedTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  image: Buffer;
+}
+
+/**
+ * Prefix a payload (an image, or tiles from `encodeTiles`) with a frame header.
+ * @param header
+ * @param payload
+ */
+export function encodeFrame(header: FrameHeader, payload: Buffer): Buffer {
+  const buffer = Buffer.alloc(FRAME_HEADER_LENGTH);
+  buffer.writeUInt8(FrameKinds[header.kind], 0);
+  buffer.writeUInt8(Codecs[header.codec], 1);
+  buffer.writeUInt16BE(FRAME_HEADER_LENGTH, 2);
+  // Wraps around rather than overflowing on very long sessions
+  buffer.writeUInt32BE(header.sequence >>> 0, 4);
+  buffer.writeUInt16BE(header.width, 8);
+  buffer.writeUInt16BE(header.height, 10);
+  buffer.writeDoubleBE(header.timestamp, 12);
+  return Buffer.concat([buffer, payload]);
+}
+
+export function encodeTiles(tiles: EncodedTile[]): Buffer {
+  const count = Buffer.alloc(2);
+  count.writeUInt16BE(tiles.length, 0);
+  const parts = [count];
+  for (const tile of tiles) {
+    const header = Buffer.alloc(TILE_HEADER_LENGTH);
+    header.writeUInt16BE(tile.x, 0);
+    header.writeUInt16BE(tile.y, 2);
+    header.writeUInt16BE(tile.width, 4);
+    header.writeUInt16BE(tile.height, 6);
+    header.writeUInt32BE(tile.image.length, 8);
+    parts.push(header, tile.image);
+  }
+  return Buffer.concat(parts);
+}
+
+export function decodeTiles(payload: Buffer): EncodedTile[] {
+  const tiles: EncodedTile[] = [];
+  let offset = 2;
+  for (let i = 0; i < payload.readUInt16BE(0); i++) {
+    const length = payload.readUInt32BE(offset + 8);
+    const start = offset + TILE_HEADER_LENGTH;
+    tiles.push({
+      x: payload.readUInt16BE(offset),
+      y: payload.readUInt16BE(offset + 2),
+      width: payload.readUInt16BE(offset + 4),
+      height: payload.readUInt16BE(offset + 6),
+      image: payload.subarray(start, start + length),
+    });
+    offset = start + length;
+  }
+  return tiles;
+}
+
+/**
+ * Split a binary frame into its header and payload, as a client would.
+ * @param buffer
+ */
+export function decodeFrame(buffer: Buffer): {
+  header: FrameHeader;
+  payload: Buffer;
+} {
+  if (buffer.length < FRAME_HEADER_LENGTH) {
+    throw new Error("Frame is shorter than its header");
+  }
+  const kind = findKey(FrameKinds, buffer.readUInt8(0));
+  const codec = findKey(Codecs, buffer.readUInt8(1));
+  if (!kind || !codec) {
+    throw new Error("Unknown frame kind or codec");
+  }
+  const headerLength = buffer.readUInt16BE(2);
+  return {
+    header: {
+      kind,
+      codec,
+      sequence: buffer.readUInt32BE(4),
+      width: buffer.readUInt16BE(8),
+      height: buffer.readUInt16BE(10),
+      timestamp: buffer.readDoubleBE(12),
+    },
+    payload: buffer.subarray(headerLength),
+  };
+}
+
+function findKey<K extends string>(
+  values: Record<K, number>,
+  value: number
+): K | undefined {
+  return (Object.keys(values) as K[]).find((key) => values[key] === value);
+}
@@ -0,0 +1,365 @@
+import { Display, DisplaySelection } from "../capture/displays";
+import { Region } from "../capture/regions";
+import { Scope } from "../security/types";
+import { MouseButton } from "../input/backend";
+import { CatalogEntry } from "../commanding/catalog";
+
+/**
+ * Version of the WebSocket message protocol spoken by this extension.
+ * Bump it whenever a message is added or changed in a way clients must know about.
+ */
+export const PROTOCOL_VERSION = 14;
+
+// Oldest client protocol version still accepted in a handshake
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Features this server supports, announced in the handshake reply.
+ */
+export const SERVER_CAPABILITIES = [
+  "screen-update",
+  "scopes",
+  "commands",
+  "chat",
+  "file-upload",
+  "responses",
+  "binary-frames",
+  "tiles",
+  "displays",
+  "regions",
+  "frame-acks",
+  "mouse-buttons",
+  "key-events",
+  "text-input",
+  "clipboard",
+  "command-candidates",
+  "command-catalog",
+];
+
+// Client → server
+
+export type MessageId = string | number;
+
+/**
+ * Fields shared by every client message. A message with an `id` is answered
+ * with a `response` carrying the same id once it has been handled.
+ */
+export interface RequestBase {
+  id?: MessageId;
+}
+
+/**
+ * First message of a versioned client. Until it arrives the connection is
+ * treated as a legacy client sending raw text commands.
+ */
+export interface HelloMessage extends RequestBase {
+  type: "hello";
+  protocolVersion: number;
+  capabilities: string[];
+  client?: string;
+}
+
+/**
+ * `down`, `up` and `move` drag with a button held; `long-press` and
+ * `two-finger-scroll` are touch gestures, mapped to a right click and to
+ * scrolling the content under the fingers.
+ */
+export type MouseEventType =
+  | "down"
+  | "up"
+  | "move"
+  | "click"
+  | "scroll"
+  | "long-press"
+  | "two-finger-scroll";
+
+export interface MouseEventMessage extends RequestBase {
+  type: "mouse-event";
+  eventType: MouseEventType;
+  // Pointer position in the client's coordinate space
+  x: number;
+  y: number;
+  screenWidth: number;
+  screenHeight: number;
+  // For down, up and click; left by default
+  button?: MouseButton;
+  // For click: 2 for a double click, 3 for a triple click
+  clickCount?: number;
+  // For scroll, in wheel steps with positive values scrolling right and down.
+  // For two-finger-scroll, how far the fingers moved in client pixels.
+  deltaX?: number;
+  deltaY?: number;
+}
+
+/**
+ * `press` taps a key. `down` holds it, e.g. a modifier across several
+ * presses, until an `up` event releases it.
+ */
+export type KeyEventType = "press" | "down" | "up";
+
+export interface KeyboardEventMessage extends RequestBase {
+  type: "keyboard-event";
+  // A key name, e.g. "enter", "ArrowUp" or "KEYCODE_DEL", or a single character
+  key: string;
+  modifier?: string | string[];
+  // press by default
+  eventType?: KeyEventType;
+}
+
+/**
+ * Text typed on the phone, e.g. a word picked from its keyboard's
+ * suggestions or composed with an IME. Unlike key events it may hold any
+ * character.
+ */
+export interface TextInputMessage extends RequestBase {
+  type: "text-input";
+  text: string;
+}
+
+/**
+ * Quality this client wants to be streamed at. It only affects this client,
+ * and adaptation to its connection never goes above it.
+ */
+export interface QualityUpdateMessage extends RequestBase {
+  type: "quality-update";
+  width?: number;
+  jpegQuality?: number;
+  fps?: number;
+}
+
+export interface CommandMessage extends RequestBase {
+  type: "command";
+  // Same text a legacy client sends as a raw message, e.g. "type hello"
+  command: string;
+}
+
+export interface ChatMessage extends RequestBase {
+  type: "chat";
+  prompt: string;
+}
+
+/**
+ * Announces that the next binary frame is a file, so that the file's
+ * `response` can be correlated with this message's id.
+ */
+export interface FileUploadMessage extends RequestBase {
+  type: "file-upload";
+}
+
+/**
+ * Ask for the whole screen to be sent again, e.g. after the client dropped
+ * frames; tile clients receive a keyframe.
+ */
+export interface RefreshMessage extends RequestBase {
+  type: "refresh";
+}
+
+/**
+ * Ask for the connected displays; answered with a `displays` message.
+ */
+export interface ListDisplaysMessage extends RequestBase {
+  type: "list-displays";
+}
+
+/**
+ * Stream another display. Mouse events are then mapped into that display.
+ */
+export interface SelectDisplayMessage extends RequestBase {
+  type: "select-display";
+  // A display id from `displays`, "primary", or "all" for the whole desktop
+  display: DisplaySelection;
+}
+
+/**
+ * Stream only part of the selected display, e.g. to zoom in on the editor.
+ * Mouse events are then mapped into the region.
+ */
+export interface SetRegionMessage extends RequestBase {
+  type: "set-region";
+  // Fractions of the display, the name of a saved region, or null for the whole display
+  region: Region | string | null;
+}
+
+/**
+ * Sent by clients with the "frame-acks" capability once a frame is drawn.
+ * Frames left unacknowledged lower the quality sent to that client.
+ */
+export interface FrameAckMessage extends RequestBase {
+  type: "frame-ack";
+  sequence: number;
+}
+
+/**
+ * Put text from the phone on the desktop clipboard. Images cannot be put on
+ * it through VS Code, so they are saved into the workspace like uploaded
+ * files and their path is copied instead.
+ */
+export interface ClipboardPushMessage extends RequestBase {
+  type: "clipboard-push";
+  format: "text" | "image";
+  // The text, or a base64-encoded PNG, JPEG or GIF
+  data: string;
+}
+
+/**
+ * Ask for the text on the desktop clipboard; answered with a `clipboard` message.
+ */
+export interface ClipboardPullMessage extends RequestBase {
+  type: "clipboard-pull";
+}
+
+/**
+ * Start or stop sending a `clipboard` message whenever the desktop
+ * clipboard changes.
+ */
+export interface ClipboardSyncMessage extends RequestBase {
+  type: "clipboard-sync";
+  enabled: boolean;
+}
+
+/**
+ * Ask for every command available in this VS Code instance; answered with a
+ * `commands` message.
+ */
+export interface ListCommandsMessage extends RequestBase {
+  type: "list-commands";
+}
+
+/**
+ * Run a command from the catalog by its VS Code id, e.g. one contributed by
+ * an extension, which `command` messages do not know by name.
+ */
+export interface RunCommandMessage extends RequestBase {
+  type: "run-command";
+  command: string;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | MouseEventMessage
+  | KeyboardEventMessage
+  | TextInputMessage
+  | QualityUpdateMessage
+  | CommandMessage
+  | ChatMessage
+  | FileUploadMessage
+  | RefreshMessage
+  | ListDisplaysMessage
+  | SelectDisplayMessage
+  | SetRegionMessage
+  | FrameAckMessage
+  | ClipboardPushMessage
+  | ClipboardPullMessage
+  | ClipboardSyncMessage
+  | ListCommandsMessage
+  | RunCommandMessage;
+
+export type ClientMessageType = ClientMessage["type"];
+
+// Server → client
+
+export interface WelcomeMessage {
+  type: "welcome";
+  // Version both sides speak: the lower of the client's and the server's
+  protocolVersion: number;
+  capabilities: string[];
+  deviceId: string;
+}
+
+export interface PairedMessage {
+  type: "paired";
+  deviceId: string;
+  token: string;
+}
+
+export interface ScopesMessage {
+  type: "scopes";
+  scopes: Scope[];
+}
+
+/**
+ * A screen frame for clients without the "binary-frames" capability, which
+ * get the binary framing in ./frames instead.
+ */
+export interface ScreenUpdateMessage {
+  type: "screen-update";
+  // Base64-encoded JPEG
+  image: string;
+  dimensions: { width: number; height: number };
+  // For acknowledging the frame, as in the binary frame header
+  sequence: number;
+}
+
+export interface DisplaysMessage {
+  type: "displays";
+  displays: Display[];
+  // Display being streamed to this client
+  selected: DisplaySelection;
+  // Part of the display being streamed, or null for all of it
+  region: Region | null;
+  // Regions saved in the settings, by name
+  regions: Record<string, Region>;
+}
+
+/**
+ * Text on the desktop clipboard, sent for `clipboard-pull` and, to clients
+ * that enabled `clipboard-sync`, whenever it changes.
+ */
+export interface ClipboardMessage {
+  type: "clipboard";
+  text: string;
+}
+
+export interface CommandsMessage {
+  type: "commands";
+  // Custom commands and macros first, then the rest by category and title
+  commands: CatalogEntry[];
+}
+
+export type ErrorCode =
+  | "invalid-json"
+  | "invalid-message"
+  | "unknown-type"
+  | "unsupported-version"
+  | "permission-denied"
+  | "command-failed"
+  // A custom command's arguments do not fit its pattern, e.g. "go to line ten"
+  | "invalid-command"
+  // Input cannot be injected on this machine; see the "input-unavailable" capability
+  | "input-unavailable";
+
+export interface ErrorMessage {
+  type: "error";
+  code: ErrorCode;
+  message: string;
+  // Missing scope, for "permission-denied"
+  scope?: Scope;
+  // One entry per invalid field, for "invalid-message"
+  details?: string[];
+}
+
+export type ResponseMessage =
+  | {
+      type: "response";
+      id: MessageId;
+      status: "ok";
+      // Depends on the request, e.g. the AI reply to a chat prompt
+      result?: unknown;
+    }
+  | {
+      type: "response";
+      id: MessageId;
+      status: "error";
+      error: Omit<ErrorMessage, "type">;
+    };
+
+export type ServerMessage =
+  | WelcomeMessage
+  | PairedMessage
+  | ScopesMessage
+  | ScreenUpdateMessage
+  | DisplaysMessage
+  | ClipboardMessage
+  | CommandsMessage
+  | ErrorMessage
+  | ResponseMessage;
@@ -0,0 +1,275 @@
+import {
+  ClientMessage,
+  ClientMessageType,
+  ErrorCode,
+  MessageId,
+} from "./messages";
+import { isValidRegion } from "../capture/regions";
+
+/**
+ * A message that could not be accepted, replied to the client as an `error`
+ * message, or as an error `response` when the message had a usable id.
+ */
+export class ProtocolError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: string[],
+    public readonly id?: MessageId
+  ) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+interface Field {
+  check: (value: unknown) => boolean;
+  // Shown to the client when the check fails
+  expected: string;
+  optional?: boolean;
+}
+
+const string: Field = {
+  check: (value) => typeof value === "string",
+  expected: "a string",
+};
+
+const nonEmptyString: Field = {
+  check: (value) => typeof value === "string" && value.length > 0,
+  expected: "a non-empty string",
+};
+
+const number: Field = {
+  check: (value) => typeof value === "number" && Number.isFinite(value),
+  expected: "a number",
+};
+
+const positiveNumber: Field = {
+  check: (value) => number.check(value) && (value as number) > 0,
+  expected: "a positive number",
+};
+
+// Wheel steps, or client pixels for a pan, which no screen comes near
+const MAX_DELTA = 10000;
+
+const delta: Field = {
+  check: (value) =>
+    number.check(value) && Math.abs(value as number) <= MAX_DELTA,
+  expected: `a number between -${MAX_DELTA} and ${MAX_DELTA}`,
+};
+
+const integer: Field = {
+  check: (value) => Number.isInteger(value),
+  expected: "an integer",
+};
+
+const clickCount: Field = {
+  check: (value) => value === 1 || value === 2 || value === 3,
+  expected: "1, 2 or 3",
+};
+
+const boolean: Field = {
+  check: (value) => typeof value === "boolean",
+  expected: "a boolean",
+};
+
+const stringArray: Field = {
+  check: (value) =>
+    Array.isArray(value) && value.every((item) => typeof item === "string"),
+  expected: "an array of strings",
+};
+
+const messageId: Field = {
+  check: (value) => typeof value === "string" || Number.isInteger(value),
+  expected: "a string or an integer",
+};
+
+const nullValue: Field = {
+  check: (value) => value === null,
+  expected: "null",
+};
+
+const region: Field = {
+  check: isValidRegion,
+  expected: "a region with x, y, width and height between 0 and 1",
+};
+
+function oneOf(...values: string[]): Field {
+  return {
+    check: (value) => values.includes(value as string),
+    expected: `one of ${values.map((v) => `"${v}"`).join(", ")}`,
+  };
+}
+
+function anyOf(...fields: Field[]): Field {
+  return {
+    check: (value) => fields.some((field) => field.check(value)),
+    expected: fields.map((field) => field.expected).join(" or "),
+  };
+}
+
+function optional(field: Field): Field {
+  return { ...field, optional: true };
+}
+
+// Fields every client message may carry
+const RequestFields: Record<string, Field> = {
+  id: optional(messageId),
+};
+
+/**
+ * Fields of every client message besides `type` and the request fields.
+ * Unknown fields are ignored so that newer clients can add optional data.
+ */
+const ClientMessageSchemas: Record<ClientMessageType, Record<string, Field>> = {
+  hello: {
+    protocolVersion: integer,
+    capabilities: stringArray,
+    client: optional(string),
+  },
+  "mouse-event": {
+    eventType: oneOf(
+      "down",
+      "up",
+      "move",
+      "click",
+      "scroll",
+      "long-press",
+      "two-finger-scroll"
+    ),
+    x: number,
+    y: number,
+    screenWidth: positiveNumber,
+    screenHeight: positiveNumber,
+    button: optional(oneOf("left", "right", "middle")),
+    clickCount: optional(clickCount),
+    deltaX: optional(delta),
+    deltaY: optional(delta),
+  },
+  "keyboard-event": {
+    key: nonEmptyString,
+    modifier: optional(anyOf(string, stringArray)),
+    eventType: optional(oneOf("press", "down", "up")),
+  },
+  "text-input": {
+    text: nonEmptyString,
+  },
+  "quality-update": {
+    width: optional(number),
+    jpegQuality: optional(number),
+    fps: optional(number),
+  },
+  command: {
+    command: nonEmptyString,
+  },
+  chat: {
+    prompt: nonEmptyString,
+  },
+  "file-upload": {},
+  refresh: {},
+  "list-displays": {},
+  "select-display": {
+    display: nonEmptyString,
+  },
+  "frame-ack": {
+    sequence: integer,
+  },
+  "set-region": {
+    region: anyOf(region, nonEmptyString, nullValue),
+  },
+  "clipboard-push": {
+    format: oneOf("text", "image"),
+    data: string,
+  },
+  "clipboard-pull": {},
+  "clipboard-sync": {
+    enabled: boolean,
+  },
+  "list-commands": {},
+  "run-command": {
+    command: nonEmptyString,
+  },
+};
+
+function isClientMessageType(type: string): type is ClientMessageType {
+  return Object.prototype.hasOwnProperty.call(ClientMessageSchemas, type);
+}
+
+/**
+ * Parse and validate a text frame from a client.
+ * Legacy clients send raw text commands, so unless `strict` is set anything
+ * that is not a JSON object with a known `type` is returned as null for the
+ * caller to handle as a command, as before the protocol had types. Objects
+ * with a known `type` are always validated.
+ * @param data
+ * @param strict whether the client completed the handshake and must only send protocol messages
+ * @throws ProtocolError when the message is malformed
+ */
+export function parseClientMessage(
+  data: string,
+  strict: boolean
+): ClientMessage | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    if (strict) {
+      throw new ProtocolError("invalid-json", "Message is not valid JSON");
+    }
+    return null;
+  }
+
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    Array.isArray(parsed) ||
+    !("type" in parsed)
+  ) {
+    if (strict) {
+      throw new ProtocolError(
+        "invalid-message",
+        "Message must be an object with a type"
+      );
+    }
+    return null;
+  }
+
+  const message = parsed as Record<string, unknown>;
+  const { type } = message;
+  // Let errors be correlated whenever the id itself is usable
+  const id = messageId.check(message.id)
+    ? (message.id as MessageId)
+    : undefined;
+  if (typeof type !== "string" || !isClientMessageType(type)) {
+    if (!strict) {
+      return null;
+    }
+    throw new ProtocolError(
+      "unknown-type",
+      `Unknown message type: ${String(type)}`,
+      undefined,
+      id
+    );
+  }
+
+  const fields = { ...RequestFields, ...ClientMessageSchemas[type] };
+  const errors = Object.entries(fields)
+    .filter(([name, field]) => {
+      const value = message[name];
+      if (value === undefined) {
+        return !field.optional;
+      }
+      return !field.check(value);
+    })
+    .map(([name, field]) => `${name}: expected ${field.expected}`);
+  if (errors.length > 0) {
+    throw new ProtocolError(
+      "invalid-message",
+      `Invalid "${type}" message`,
+      errors,
+      id
+    );
+  }
+
+  return message as unknown as ClientMessage;
+}
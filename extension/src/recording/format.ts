@@ -0,0 +1,183 @@
+import { decodeFrame, FrameHeader } from "../protocol/frames";
+
+/**
+ * Session recordings: the screen frames sent to clients and the input
+ * received from them, on one timeline.
+ *
+ * Layout, big-endian:
+ *   0  5 bytes  magic "ACREC"
+ *   5  uint8    format version
+ *   6  uint32   metadata length
+ *   10 ...      metadata, as JSON
+ *   then per record:
+ *   0  uint8    record type (1 = frame, 2 = input event)
+ *   1  float64  time since the recording started, in ms
+ *   9  uint32   payload length
+ *   13 ...      payload: a binary screen frame as in ../protocol/frames, or the event as JSON
+ *
+ * Records are appended as they happen, so a recording cut short by a crash
+ * is still readable up to its last complete record.
+ */
+
+export const RECORDING_EXTENSION = "acrec";
+
+const MAGIC = Buffer.from("ACREC");
+const FORMAT_VERSION = 1;
+// Magic, version and metadata length
+export const RECORDING_PREAMBLE_LENGTH = MAGIC.length + 5;
+export const RECORD_HEADER_LENGTH = 13;
+
+const RecordTypes = {
+  frame: 1,
+  event: 2,
+} as const;
+
+export interface RecordingMetadata {
+  // ms since the epoch
+  startedAt: number;
+  workspace?: string;
+}
+
+/**
+ * Input received from a device, with typed text redacted as in the audit log.
+ */
+export interface RecordedEvent {
+  device: string;
+  type: "mouse-event" | "keyboard-event" | "text-input" | "command" | "chat";
+  args: Record<string, unknown>;
+}
+
+export type RecordingEntry =
+  | { kind: "frame"; time: number; header: FrameHeader; image: Buffer }
+  | { kind: "event"; time: number; event: RecordedEvent };
+
+export interface RecordHeader {
+  type: number;
+  // ms since the recording started
+  time: number;
+  // Payload length
+  length: number;
+}
+
+export interface Recording {
+  metadata: RecordingMetadata;
+  entries: RecordingEntry[];
+}
+
+export function encodeRecordingHeader(metadata: RecordingMetadata): Buffer {
+  const json = Buffer.from(JSON.stringify(metadata));
+  const header = Buffer.alloc(RECORDING_PREAMBLE_LENGTH);
+  MAGIC.copy(header, 0);
+  header.writeUInt8(FORMAT_VERSION, MAGIC.length);
+  header.writeUInt32BE(json.length, MAGIC.length + 1);
+  return Buffer.concat([header, json]);
+}
+
+/**
+ * @param time ms since the recording started
+ * @param frame a binary screen frame, from `encodeFrame`
+ */
+export function encodeFrameRecord(time: number, frame: Buffer): Buffer {
+  return encodeRecord(RecordTypes.frame, time, frame);
+}
+
+/**
+ * @param time ms since the recording started
+ * @param event
+ */
+export function encodeEventRecord(time: number, event: RecordedEvent): Buffer {
+  return encodeRecord(
+    RecordTypes.event,
+    time,
+    Buffer.from(JSON.stringify(event))
+  );
+}
+
+function encodeRecord(type: number, time: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(RECORD_HEADER_LENGTH);
+  header.writeUInt8(type, 0);
+  header.writeDoubleBE(time, 1);
+  header.writeUInt32BE(payload.length, 9);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Check the start of a recording.
+ * @param buffer at least RECORDING_PREAMBLE_LENGTH bytes from the start of the file
+ * @returns the length of the metadata that follows
+ * @throws when the buffer is not a recording in a supported version
+ */
+export function decodeRecordingPreamble(buffer: Buffer): number {
+  if (
+    buffer.length < RECORDING_PREAMBLE_LENGTH ||
+    !buffer.subarray(0, MAGIC.length).equals(MAGIC)
+  ) {
+    throw new Error("Not an AirCodum recording");
+  }
+  const version = buffer.readUInt8(MAGIC.length);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported recording version: ${version}`);
+  }
+  return buffer.readUInt32BE(MAGIC.length + 1);
+}
+
+/**
+ * @param buffer
+ * @param offset where the record starts
+ */
+export function decodeRecordHeader(buffer: Buffer, offset = 0): RecordHeader {
+  return {
+    type: buffer.readUInt8(offset),
+    time: buffer.readDoubleBE(offset + 1),
+    length: buffer.readUInt32BE(offset + 9),
+  };
+}
+
+/**
+ * @param header
+ * @param payload
+ * @returns the entry, or null for a record type this version does not know
+ */
+export function decodeRecord(
+  header: RecordHeader,
+  payload: Buffer
+): RecordingEntry | null {
+  const { type, time } = header;
+  if (type === RecordTypes.frame) {
+    const { header: frameHeader, payload: image } = decodeFrame(payload);
+    return { kind: "frame", time, header: frameHeader, image };
+  }
+  if (type === RecordTypes.event) {
+    return { kind: "event", time, event: JSON.parse(payload.toString()) };
+  }
+  // Unknown record types are skipped, so that newer ones can be added
+  return null;
+}
+
+/**
+ * Read a whole recording. A truncated last record is ignored.
+ * @param buffer
+ * @throws when the buffer is not a recording in a supported version
+ */
+export function decodeRecording(buffer: Buffer): Recording {
+  const metadataEnd =
+    RECORDING_PREAMBLE_LENGTH + decodeRecordingPreamble(buffer);
+  const metadata: RecordingMetadata = JSON.parse(
+    buffer.subarray(RECORDING_PREAMBLE_LENGTH, metadataEnd).toString()
+  );
+
+  const entries: RecordingEntry[] = [];
+  let offset = metadataEnd;
+  while (offset + RECORD_HEADER_LENGTH <= buffer.length) {
+    const header = decodeRecordHeader(buffer, offset);
+    const start = offset + RECORD_HEADER_LENGTH;
+    const end = start + header.length;
+    if (end > buffer.length) break;
+    const entry = decodeRecord(header, buffer.subarray(start, end));
+    if (entry) {
+      entries.push(entry);
+    }
+    offset = end;
+  }
+  return { metadata, entries };
+}
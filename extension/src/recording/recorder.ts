@@ -0,0 +1,235 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  describeCommand,
+  redactKey,
+  redactText,
+  shouldRedactTypedText,
+} from "../audit/log";
+import { VNCQualitySettings } from "../capture/manager";
+import { encodeFrame } from "../protocol/frames";
+import {
+  ChatMessage,
+  CommandMessage,
+  KeyboardEventMessage,
+  MouseEventMessage,
+  TextInputMessage,
+} from "../protocol/messages";
+import {
+  encodeEventRecord,
+  encodeFrameRecord,
+  encodeRecordingHeader,
+  RECORDING_EXTENSION,
+  RecordedEvent,
+} from "./format";
+
+/**
+ * Subscribes to the screen frames sent to clients, encoded with the given
+ * settings, returning a function to unsubscribe. Frames come with when they
+ * were captured, in ms since the epoch.
+ */
+export type ScreenSource = (
+  callback: (
+    frame: Buffer,
+    dimensions: { width: number; height: number },
+    capturedAt: number
+  ) => void,
+  quality: VNCQualitySettings
+) => () => void;
+
+// A recording is for reviewing what happened rather than for watching
+// smoothly, so it keeps fewer and smaller frames than clients are sent
+export const RECORDING_QUALITY: VNCQualitySettings = {
+  width: 1024,
+  jpegQuality: 80,
+  fps: 5,
+};
+
+export type RecordableInput =
+  | MouseEventMessage
+  | KeyboardEventMessage
+  | TextInputMessage
+  | CommandMessage
+  | ChatMessage;
+
+interface ActiveRecording {
+  filePath: string;
+  startedAt: number;
+  stream: fs.WriteStream;
+  frameSequence: number;
+  lastFrameAt: number;
+  // Set while the file is behind on writes; frames are dropped until it drains
+  backedUp: boolean;
+  unsubscribe: () => void;
+}
+
+let recordingsDir: string | null = null;
+let active: ActiveRecording | null = null;
+
+/**
+ * Set the directory recordings are saved to: the workspace's storage, or
+ * the extension's when no folder is open. It is created on the first recording.
+ * @param context
+ */
+export function initRecording(context: vscode.ExtensionContext) {
+  const storage = context.storageUri ?? context.globalStorageUri;
+  recordingsDir = path.join(storage.fsPath, "recordings");
+}
+
+export function getRecordingsDir(): string | null {
+  return recordingsDir;
+}
+
+export function isRecording(): boolean {
+  return active !== null;
+}
+
+/**
+ * Start recording the screen stream and remote input to a new file.
+ * @param subscribe
+ * @returns the path of the recording
+ */
+export async function startRecording(subscribe: ScreenSource): Promise<string> {
+  if (active) {
+    throw new Error("A session is already being recorded");
+  }
+  if (!recordingsDir) {
+    throw new Error("Recording has not been initialized");
+  }
+  await fs.promises.mkdir(recordingsDir, { recursive: true });
+
+  const startedAt = Date.now();
+  const fileName = `session-${new Date(startedAt)
+    .toISOString()
+    .replace(/[:.]/g, "-")}.${RECORDING_EXTENSION}`;
+  const filePath = path.join(recordingsDir, fileName);
+  const stream = fs.createWriteStream(filePath);
+  stream.on("error", (error) => {
+    console.error("Error writing recording:", error);
+  });
+  stream.write(
+    encodeRecordingHeader({
+      startedAt,
+      workspace: vscode.workspace.name,
+    })
+  );
+
+  const recording: ActiveRecording = {
+    filePath,
+    startedAt,
+    stream,
+    frameSequence: 0,
+    lastFrameAt: 0,
+    backedUp: false,
+    unsubscribe: () => {},
+  };
+  active = recording;
+  recording.unsubscribe = subscribe((frame, dimensions, capturedAt) => {
+    if (
+      recording.backedUp ||
+      capturedAt - recording.lastFrameAt < 1000 / RECORDING_QUALITY.fps
+    ) {
+      return;
+    }
+    recording.lastFrameAt = capturedAt;
+    const written = stream.write(
+      encodeFrameRecord(
+        // The first frame may have been captured just before recording started
+        Math.max(0, capturedAt - startedAt),
+        encodeFrame(
+          {
+            kind: "screen",
+            codec: "jpeg",
+            sequence: recording.frameSequence++,
+            ...dimensions,
+            timestamp: capturedAt,
+          },
+          frame
+        )
+      )
+    );
+    if (!written) {
+      recording.backedUp = true;
+      stream.once("drain", () => (recording.backedUp = false));
+    }
+  }, RECORDING_QUALITY);
+  return filePath;
+}
+
+/**
+ * Stop recording and close the file.
+ * @returns the path of the recording, or null if nothing was being recorded
+ */
+export async function stopRecording(): Promise<string | null> {
+  if (!active) return null;
+  const { filePath, stream, unsubscribe } = active;
+  active = null;
+  unsubscribe();
+  await new Promise<void>((resolve) => stream.end(resolve));
+  return filePath;
+}
+
+/**
+ * Add input received from a device to the recording, if one is running.
+ * @param device name of the device
+ * @param message
+ */
+export function recordInput(device: string, message: RecordableInput) {
+  if (!active) return;
+  active.stream.write(
+    encodeEventRecord(
+      Date.now() - active.startedAt,
+      describeInput(device, message, shouldRedactTypedText())
+    )
+  );
+}
+
+/**
+ * What a recording keeps of an input message, with typed text replaced by a
+ * placeholder when `redactTypedText` is set, as in the audit log.
+ * @param device
+ * @param message
+ * @param redactTypedText
+ */
+export function describeInput(
+  device: string,
+  message: RecordableInput,
+  redactTypedText: boolean
+): RecordedEvent {
+  switch (message.type) {
+    case "mouse-event": {
+      const { type, id, ...args } = message;
+      return { device, type, args };
+    }
+    case "keyboard-event":
+      return {
+        device,
+        type: message.type,
+        args: {
+          key: redactKey(message.key, redactTypedText),
+          modifier: message.modifier,
+          eventType: message.eventType,
+        },
+      };
+    case "text-input":
+      return {
+        device,
+        type: message.type,
+        args: { text: redactText(message.text, redactTypedText) },
+      };
+    case "command": {
+      const { command, args } = describeCommand(
+        message.command,
+        redactTypedText
+      );
+      return { device, type: message.type, args: { command, ...args } };
+    }
+    case "chat":
+      return {
+        device,
+        type: message.type,
+        args: { prompt: redactTypedText ? "[redacted]" : message.prompt },
+      };
+  }
+}
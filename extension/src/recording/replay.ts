@@ -0,0 +1,424 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  decodeRecord,
+  decodeRecordHeader,
+  decodeRecordingPreamble,
+  RECORD_HEADER_LENGTH,
+  RECORDING_EXTENSION,
+  RECORDING_PREAMBLE_LENGTH,
+  RecordHeader,
+  RecordingEntry,
+  RecordingMetadata,
+} from "./format";
+import { getRecordingsDir } from "./recorder";
+
+/**
+ * Where a record is in a recording file, so that it can be read when needed.
+ */
+export interface RecordLocation extends RecordHeader {
+  // Where the payload starts in the file
+  offset: number;
+}
+
+/**
+ * An open recording. Only the metadata and where each record is are kept in
+ * memory; frames are read from the file one at a time.
+ */
+export class RecordingFile {
+  private constructor(
+    private readonly file: fs.promises.FileHandle,
+    public readonly metadata: RecordingMetadata,
+    public readonly records: RecordLocation[]
+  ) {}
+
+  /**
+   * Open a recording and find its records. A truncated last record is ignored.
+   * @param filePath
+   * @throws when the file is not a recording in a supported version
+   */
+  public static async open(filePath: string): Promise<RecordingFile> {
+    const file = await fs.promises.open(filePath, "r");
+    try {
+      const { size } = await file.stat();
+      const preamble = await readAt(file, 0, RECORDING_PREAMBLE_LENGTH);
+      const metadataEnd =
+        RECORDING_PREAMBLE_LENGTH + decodeRecordingPreamble(preamble);
+      const metadata: RecordingMetadata = JSON.parse(
+        (
+          await readAt(
+            file,
+            RECORDING_PREAMBLE_LENGTH,
+            metadataEnd - RECORDING_PREAMBLE_LENGTH
+          )
+        ).toString()
+      );
+
+      const records: RecordLocation[] = [];
+      let offset = metadataEnd;
+      while (offset + RECORD_HEADER_LENGTH <= size) {
+        const header = decodeRecordHeader(
+          await readAt(file, offset, RECORD_HEADER_LENGTH)
+        );
+        const start = offset + RECORD_HEADER_LENGTH;
+        if (start + header.length > size) break;
+        records.push({ ...header, offset: start });
+        offset = start + header.length;
+      }
+      return new RecordingFile(file, metadata, records);
+    } catch (error) {
+      await file.close();
+      throw error;
+    }
+  }
+
+  public get duration(): number {
+    return this.records.at(-1)?.time ?? 0;
+  }
+
+  /**
+   * @param record one of `records`
+   * @returns the entry, or null for a record type this version does not know
+   */
+  public async read(record: RecordLocation): Promise<RecordingEntry | null> {
+    return decodeRecord(
+      record,
+      await readAt(this.file, record.offset, record.length)
+    );
+  }
+
+  /**
+   * Every entry in order, read as it is needed.
+   */
+  public async *entries(): AsyncGenerator<RecordingEntry> {
+    for (const record of this.records) {
+      const entry = await this.read(record);
+      if (entry) {
+        yield entry;
+      }
+    }
+  }
+
+  public async close() {
+    await this.file.close();
+  }
+}
+
+async function readAt(
+  file: fs.promises.FileHandle,
+  position: number,
+  length: number
+): Promise<Buffer> {
+  const { buffer, bytesRead } = await file.read(
+    Buffer.alloc(length),
+    0,
+    length,
+    position
+  );
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Plays recording entries back at their original pace, or faster.
+ */
+export class ReplayPlayer<T extends { time: number } = RecordingEntry> {
+  private index = 0;
+  // Position in the recording when playback last started or paused, in ms
+  private position = 0;
+  private playStartedAt = 0;
+  private playing = false;
+  private speed = 1;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly entries: T[],
+    private readonly onEntry: (entry: T) => void,
+    private readonly onEnd: () => void = () => {}
+  ) {}
+
+  public play() {
+    if (this.playing) return;
+    if (this.index >= this.entries.length) {
+      this.index = 0;
+      this.position = 0;
+    }
+    this.playing = true;
+    this.playStartedAt = Date.now();
+    this.scheduleNext();
+  }
+
+  public pause() {
+    if (!this.playing) return;
+    this.position = this.getPosition();
+    this.playing = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public restart() {
+    this.pause();
+    this.index = 0;
+    this.position = 0;
+    this.play();
+  }
+
+  public setSpeed(speed: number) {
+    const wasPlaying = this.playing;
+    this.pause();
+    this.speed = speed;
+    if (wasPlaying) {
+      this.play();
+    }
+  }
+
+  private getPosition(): number {
+    return this.playing
+      ? this.position + (Date.now() - this.playStartedAt) * this.speed
+      : this.position;
+  }
+
+  private scheduleNext() {
+    if (this.index >= this.entries.length) {
+      this.pause();
+      this.onEnd();
+      return;
+    }
+    const delay = Math.max(
+      0,
+      (this.entries[this.index].time - this.getPosition()) / this.speed
+    );
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const position = this.getPosition();
+      while (
+        this.index < this.entries.length &&
+        this.entries[this.index].time <= position
+      ) {
+        this.onEntry(this.entries[this.index++]);
+      }
+      this.scheduleNext();
+    }, delay);
+  }
+}
+
+/**
+ * Ask for a recording, starting in the directory recordings are saved to.
+ */
+export async function pickRecording(): Promise<string | undefined> {
+  const dir = getRecordingsDir();
+  const picked = await vscode.window.showOpenDialog({
+    defaultUri: dir ? vscode.Uri.file(dir) : undefined,
+    canSelectMany: false,
+    filters: { "AirCodum Recording": [RECORDING_EXTENSION] },
+    openLabel: "Select Recording",
+  });
+  return picked?.[0]?.fsPath;
+}
+
+/**
+ * Play a recording back in a webview, with the input events alongside the screen.
+ * @param context
+ * @param filePath
+ */
+export async function openReplayPanel(
+  context: vscode.ExtensionContext,
+  filePath: string
+) {
+  const recording = await RecordingFile.open(filePath);
+  const panel = vscode.window.createWebviewPanel(
+    "AirCodumReplay",
+    `Replay: ${path.basename(filePath)}`,
+    vscode.ViewColumn.One,
+    { enableScripts: true, retainContextWhenHidden: true }
+  );
+  panel.webview.html = getReplayContent();
+
+  const duration = recording.duration;
+  // Entries are read from the file in the order they are played
+  let posting = Promise.resolve();
+  const player = new ReplayPlayer(
+    recording.records,
+    (record) => {
+      posting = posting
+        .then(async () => {
+          const entry = await recording.read(record);
+          if (entry?.kind === "frame") {
+            panel.webview.postMessage({
+              type: "frame",
+              time: entry.time,
+              duration,
+              image: `data:image/jpeg;base64,${entry.image.toString("base64")}`,
+            });
+          } else if (entry) {
+            panel.webview.postMessage({
+              type: "event",
+              time: entry.time,
+              event: entry.event,
+            });
+          }
+        })
+        .catch((error) => console.error("Error reading recording:", error));
+    },
+    () => {
+      posting = posting.then(() => {
+        panel.webview.postMessage({ type: "ended" });
+      });
+    }
+  );
+
+  panel.webview.onDidReceiveMessage(
+    (message) => {
+      switch (message.command) {
+        case "play":
+          player.play();
+          break;
+        case "pause":
+          player.pause();
+          break;
+        case "restart":
+          player.restart();
+          break;
+        case "speed":
+          player.setSpeed(Number(message.speed) || 1);
+          break;
+      }
+    },
+    undefined,
+    context.subscriptions
+  );
+  panel.onDidDispose(
+    () => {
+      player.pause();
+      posting = posting.then(() => recording.close());
+    },
+    null,
+    context.subscriptions
+  );
+  player.play();
+}
+
+/**
+ * Write every frame of a recording as a numbered JPEG, plus a timeline.json
+ * placing the frames and input events in time, e.g. to attach to a bug report.
+ * @param recording
+ * @param targetDir
+ * @returns the number of frames written
+ */
+export async function exportImageSequence(
+  recording: RecordingFile,
+  targetDir: string
+): Promise<number> {
+  await fs.promises.mkdir(targetDir, { recursive: true });
+  const timeline: Array<Record<string, unknown>> = [];
+  let frames = 0;
+  for await (const entry of recording.entries()) {
+    if (entry.kind === "frame") {
+      const file = `frame-${String(++frames).padStart(6, "0")}.jpg`;
+      await fs.promises.writeFile(path.join(targetDir, file), entry.image);
+      timeline.push({ time: entry.time, frame: file });
+    } else {
+      timeline.push({ time: entry.time, event: entry.event });
+    }
+  }
+  await fs.promises.writeFile(
+    path.join(targetDir, "timeline.json"),
+    JSON.stringify({ metadata: recording.metadata, timeline }, null, 2)
+  );
+  return frames;
+}
+
+function getReplayContent(): string {
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>AirCodum Replay</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-foreground);
+            padding: 10px;
+        }
+        .controls {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-bottom: 10px;
+        }
+        button, select {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 4px 10px;
+            cursor: pointer;
+        }
+        #screen {
+            max-width: 100%;
+            border: 1px solid var(--vscode-panel-border);
+        }
+        #events {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            max-height: 200px;
+            overflow-y: auto;
+            margin-top: 10px;
+        }
+    </style>
+  </head>
+  <body>
+    <div class="controls">
+        <button onclick="send('play')">Play</button>
+        <button onclick="send('pause')">Pause</button>
+        <button onclick="send('restart')">Restart</button>
+        <select onchange="vscode.postMessage({ command: 'speed', speed: this.value })">
+            <option value="0.5">0.5×</option>
+            <option value="1" selected>1×</option>
+            <option value="2">2×</option>
+            <option value="4">4×</option>
+        </select>
+        <span id="position"></span>
+    </div>
+    <img id="screen" alt="Recorded screen">
+    <div id="events"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function send(command) {
+            vscode.postMessage({ command });
+        }
+
+        function formatTime(ms) {
+            const seconds = Math.floor(ms / 1000);
+            return Math.floor(seconds / 60) + ':' + String(seconds % 60).padStart(2, '0');
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.type) {
+                case 'frame':
+                    document.getElementById('screen').src = message.image;
+                    document.getElementById('position').textContent =
+                        formatTime(message.time) + ' / ' + formatTime(message.duration);
+                    break;
+                case 'event': {
+                    const line = document.createElement('div');
+                    line.textContent = formatTime(message.time) + '  ' + message.event.device + '  ' +
+                        message.event.type + '  ' + JSON.stringify(message.event.args);
+                    const events = document.getElementById('events');
+                    events.prepend(line);
+                    break;
+                }
+                case 'ended':
+                    document.getElementById('position').textContent += ' (ended)';
+                    break;
+            }
+        });
+    </script>
+  </body>
+  </html>`;
+}
@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import selfsigned from "selfsigned";
+import { TlsCredentials } from "./types";
+
+const CERT_FILE = "aircodum-cert.pem";
+const KEY_FILE = "aircodum-key.pem";
+const CERT_VALIDITY_DAYS = 825;
+// Regenerate a little before expiry so a running session never outlives the certificate
+const RENEW_BEFORE = 7 * 24 * 60 * 60 * 1000; // ms
+
+/**
+ * Load the persisted self-signed certificate, creating it on first use
+ * or when the stored one is missing, unreadable or about to expire.
+ * Replacing a stored certificate changes the fingerprint devices pinned,
+ * which `renewed` reports.
+ * @param storagePath directory to persist the certificate and key in
+ */
+export async function loadOrCreateCertificate(
+  storagePath: string
+): Promise<TlsCredentials> {
+  const certPath = path.join(storagePath, CERT_FILE);
+  const keyPath = path.join(storagePath, KEY_FILE);
+
+  if (fs.existsSync(certPath) && fs.existsSync(keyPath)) {
+    try {
+      const cert = fs.readFileSync(certPath, "utf-8");
+      const key = fs.readFileSync(keyPath, "utf-8");
+      const x509 = new crypto.X509Certificate(cert);
+      if (Date.parse(x509.validTo) - RENEW_BEFORE > Date.now()) {
+        return {
+          cert,
+          key,
+          fingerprint: x509.fingerprint256,
+          renewed: false,
+        };
+      }
+    } catch (error) {
+      console.error("Error reading TLS certificate, regenerating:", error);
+    }
+  }
+
+  const renewed = fs.existsSync(certPath);
+  const { cert, key } = await generateCertificate();
+  fs.mkdirSync(storagePath, { recursive: true });
+  fs.writeFileSync(certPath, cert);
+  // The mode only applies to a new file, so a replaced key is tightened first
+  if (fs.existsSync(keyPath)) {
+    fs.chmodSync(keyPath, 0o600);
+  }
+  fs.writeFileSync(keyPath, key, { mode: 0o600 });
+  return { cert, key, fingerprint: getFingerprint(cert), renewed };
+}
+
+/**
+ * SHA-256 fingerprint of a PEM certificate, as colon separated hex pairs.
+ * This is what clients pin instead of trusting a certificate authority.
+ * @param cert
+ */
+export function getFingerprint(cert: string): string {
+  return new crypto.X509Certificate(cert).fingerprint256;
+}
+
+function generateCertificate(): Promise<{ cert: string; key: string }> {
+  return new Promise((resolve, reject) => {
+    selfsigned.generate(
+      [{ name: "commonName", value: "AirCodum" }],
+      {
+        days: CERT_VALIDITY_DAYS,
+        keySize: 2048,
+        algorithm: "sha256",
+      },
+      (error, result) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve({ cert: result.cert, key: result.private });
+      }
+    );
+  });
+}
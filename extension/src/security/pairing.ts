@@ -0,0 +1,295 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { IncomingMessage } from "http";
+import { store } from "../state/store";
+import { setPairedDevices, setPairingCode } from "../state/actions";
+import { DeviceAuthResult, PairedDevice, PairingCode, Scope } from "./types";
+import { DefaultScopes, isScope, Scopes } from "./scopes";
+
+const DEVICES_SECRET_KEY = "aircodum.pairedDevices";
+const PAIRING_CODE_LENGTH = 6;
+const PAIRING_CODE_TTL = 5 * 60 * 1000; // ms
+// Wrong pairing codes tolerated within a window, from one address and from
+// all of them, before codes are refused until the window ends
+const MAX_FAILED_ATTEMPTS_PER_ADDRESS = 5;
+const MAX_FAILED_ATTEMPTS = 20;
+const FAILED_ATTEMPTS_WINDOW = 5 * 60 * 1000; // ms
+// Wrong guesses a code survives before it is replaced by a new one
+const MAX_FAILED_ATTEMPTS_PER_CODE = 10;
+
+interface FailedAttempts {
+  count: number;
+  windowStart: number;
+}
+
+let secrets: vscode.SecretStorage | null = null;
+// Writes of the device list are chained, so that concurrent updates each
+// start from the list the previous one left
+let deviceWrites: Promise<unknown> = Promise.resolve();
+const failedAttemptsByAddress = new Map<string, FailedAttempts>();
+let failedAttempts: FailedAttempts = { count: 0, windowStart: 0 };
+let failedAttemptsForCode = 0;
+
+/**
+ * Load the paired devices from SecretStorage.
+ * Must be called once on activation before any connection is authenticated.
+ * @param context
+ */
+export async function initPairing(context: vscode.ExtensionContext) {
+  secrets = context.secrets;
+  const raw = await secrets.get(DEVICES_SECRET_KEY);
+  let devices: PairedDevice[] = [];
+  if (raw) {
+    try {
+      devices = JSON.parse(raw);
+    } catch (error) {
+      console.error("Error reading paired devices:", error);
+    }
+  }
+  // Devices paired before scopes existed keep the full access they had
+  setPairedDevices(
+    devices.map((device) => ({
+      ...device,
+      scopes: device.scopes ?? [...DefaultScopes],
+    }))
+  );
+}
+
+/**
+ * Generate a fresh one-time pairing code, replacing any previous one.
+ */
+export function createPairingCode(): PairingCode {
+  const code = crypto
+    .randomInt(0, 10 ** PAIRING_CODE_LENGTH)
+    .toString()
+    .padStart(PAIRING_CODE_LENGTH, "0");
+  const pairingCode = { code, expiresAt: Date.now() + PAIRING_CODE_TTL };
+  failedAttemptsForCode = 0;
+  setPairingCode(pairingCode);
+  return pairingCode;
+}
+
+/**
+ * Return the current pairing code, generating a new one if it is missing or expired.
+ */
+export function getActivePairingCode(): PairingCode {
+  const { code } = store.getState().pairing;
+  if (code && code.expiresAt > Date.now()) {
+    return code;
+  }
+  return createPairingCode();
+}
+
+export function getPairedDevices(): PairedDevice[] {
+  return store.getState().pairing.devices;
+}
+
+export function getPairedDevice(deviceId: string): PairedDevice | undefined {
+  return getPairedDevices().find((d) => d.id === deviceId);
+}
+
+/**
+ * Authenticate a WebSocket upgrade request.
+ * Paired devices connect with `?device=<id>&token=<token>`.
+ * New devices connect once with `?code=<pairing code>&name=<device name>`
+ * and receive their token over the socket.
+ * @param req
+ * @returns the authenticated device, or null if the request must be rejected
+ */
+export async function authenticateRequest(
+  req: IncomingMessage
+): Promise<DeviceAuthResult | null> {
+  const params = new URL(req.url ?? "/", "ws://localhost").searchParams;
+
+  const deviceId = params.get("device");
+  const token = params.get("token");
+  if (deviceId && token) {
+    const device = getPairedDevice(deviceId);
+    if (!device || !safeEqual(hashToken(token), device.tokenHash)) {
+      return null;
+    }
+    return updateDevices((devices) => {
+      // The device may have been revoked in the meantime
+      const current = devices.find((d) => d.id === deviceId);
+      if (!current) {
+        return { result: null };
+      }
+      const updated = { ...current, lastSeenAt: Date.now() };
+      return {
+        devices: devices.map((d) => (d.id === deviceId ? updated : d)),
+        result: { device: updated },
+      };
+    });
+  }
+
+  const code = params.get("code");
+  if (code) {
+    const address = req.socket?.remoteAddress ?? "unknown";
+    if (isLockedOut(address)) {
+      console.warn(`Refused pairing code from ${address}: too many attempts`);
+      return null;
+    }
+    const current = store.getState().pairing.code;
+    if (
+      !current ||
+      current.expiresAt <= Date.now() ||
+      !safeEqual(code, current.code)
+    ) {
+      recordFailedAttempt(address);
+      return null;
+    }
+    // The code is single use
+    setPairingCode(null);
+    return pairDevice(params.get("name") || "Unnamed device");
+  }
+
+  return null;
+}
+
+function countAttempt(attempts: FailedAttempts | undefined): FailedAttempts {
+  const now = Date.now();
+  if (!attempts || now - attempts.windowStart >= FAILED_ATTEMPTS_WINDOW) {
+    return { count: 1, windowStart: now };
+  }
+  return { ...attempts, count: attempts.count + 1 };
+}
+
+function isOverLimit(attempts: FailedAttempts | undefined, limit: number) {
+  return (
+    attempts !== undefined &&
+    Date.now() - attempts.windowStart < FAILED_ATTEMPTS_WINDOW &&
+    attempts.count >= limit
+  );
+}
+
+/**
+ * Whether pairing codes are refused, from this address or from any, after
+ * too many wrong ones.
+ * @param address
+ */
+function isLockedOut(address: string): boolean {
+  return (
+    isOverLimit(failedAttempts, MAX_FAILED_ATTEMPTS) ||
+    isOverLimit(
+      failedAttemptsByAddress.get(address),
+      MAX_FAILED_ATTEMPTS_PER_ADDRESS
+    )
+  );
+}
+
+/**
+ * Count a wrong pairing code, and replace the code once it has been guessed
+ * at too often.
+ * @param address
+ */
+function recordFailedAttempt(address: string) {
+  failedAttempts = countAttempt(failedAttempts);
+  failedAttemptsByAddress.set(
+    address,
+    countAttempt(failedAttemptsByAddress.get(address))
+  );
+  if (++failedAttemptsForCode >= MAX_FAILED_ATTEMPTS_PER_CODE) {
+    createPairingCode();
+  }
+}
+
+async function pairDevice(name: string): Promise<DeviceAuthResult> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const device: PairedDevice = {
+    id: crypto.randomUUID(),
+    name: name.slice(0, 64),
+    tokenHash: hashToken(token),
+    pairedAt: now,
+    lastSeenAt: now,
+    scopes: [...DefaultScopes],
+  };
+  await updateDevices((devices) => ({
+    devices: [...devices, device],
+    result: undefined,
+  }));
+  vscode.window.showInformationMessage(`AirCodum: paired "${device.name}".`);
+  return { device, token };
+}
+
+/**
+ * Forget a paired device. Its token stops working for new connections;
+ * callers are responsible for closing its open sockets.
+ * @param deviceId
+ * @returns whether a device was removed
+ */
+export async function revokeDevice(deviceId: string): Promise<boolean> {
+  return updateDevices((devices) => {
+    const remaining = devices.filter((d) => d.id !== deviceId);
+    return remaining.length === devices.length
+      ? { result: false }
+      : { devices: remaining, result: true };
+  });
+}
+
+/**
+ * Replace the scopes granted to a paired device.
+ * Open connections pick up the change with their next message.
+ * @param deviceId
+ * @param scopes
+ */
+export async function setDeviceScopes(
+  deviceId: string,
+  scopes: Scope[]
+): Promise<void> {
+  const unknownScopes = scopes.filter((scope) => !isScope(scope));
+  if (unknownScopes.length > 0) {
+    throw new Error(`Unknown scopes: ${unknownScopes.join(", ")}`);
+  }
+  // Keep scopes deduplicated and in display order
+  const orderedScopes = Scopes.filter((scope) => scopes.includes(scope));
+  await updateDevices((devices) => {
+    if (!devices.some((d) => d.id === deviceId)) {
+      throw new Error(`Unknown device: ${deviceId}`);
+    }
+    return {
+      devices: devices.map((d) =>
+        d.id === deviceId ? { ...d, scopes: orderedScopes } : d
+      ),
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Change the device list after every pending change has been saved.
+ * @param update works out the new list from the current one; without
+ * `devices` nothing is written
+ * @returns the update's result
+ */
+function updateDevices<T>(
+  update: (devices: PairedDevice[]) => { devices?: PairedDevice[]; result: T }
+): Promise<T> {
+  const next = deviceWrites.then(async () => {
+    const { devices, result } = update(getPairedDevices());
+    if (devices) {
+      await saveDevices(devices);
+    }
+    return result;
+  });
+  deviceWrites = next.catch(() => undefined);
+  return next;
+}
+
+async function saveDevices(devices: PairedDevice[]) {
+  if (!secrets) {
+    throw new Error("Pairing has not been initialized");
+  }
+  await secrets.store(DEVICES_SECRET_KEY, JSON.stringify(devices));
+  setPairedDevices(devices);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
@@ -0,0 +1,74 @@
+import { BuiltInCommands, CustomCommandName } from "../commanding/commands";
+import { identifyCustomCommand } from "../commanding/grammar";
+import { findMacro } from "../commanding/macros";
+import { PairedDevice, Scope } from "./types";
+
+/**
+ * Every permission a device can be granted, in display order.
+ */
+export const Scopes: Scope[] = [
+  "screen:view",
+  "input:mouse",
+  "input:keyboard",
+  "commands:builtin",
+  "commands:custom",
+  "commands:any",
+  "files:upload",
+  "clipboard:read",
+  "clipboard:write",
+  "ai:chat",
+];
+
+// Scopes that are only ever granted one by one: running any registered
+// command reaches terminals, tasks and other extensions
+const ELEVATED_SCOPES: Scope[] = ["commands:any"];
+
+/**
+ * Scopes granted to newly paired devices.
+ */
+export const DefaultScopes: Scope[] = Scopes.filter(
+  (scope) => !ELEVATED_SCOPES.includes(scope)
+);
+
+/**
+ * Common combinations of scopes offered in the webview.
+ */
+export const ScopePresets: Record<string, Scope[]> = {
+  "View only": ["screen:view"],
+  "Commands only": ["commands:builtin"],
+  "Full input": [...DefaultScopes],
+};
+
+// Custom commands that only read the screen rather than drive the editor
+const SCREEN_COMMANDS: CustomCommandName[] = ["screenshot"];
+
+export function isScope(value: unknown): value is Scope {
+  return Scopes.includes(value as Scope);
+}
+
+export function hasScope(device: PairedDevice, scope: Scope): boolean {
+  return device.scopes.includes(scope);
+}
+
+/**
+ * Work out which scope a text command needs, mirroring how `handleCommand` dispatches it.
+ * Anything that is not a known command ends up as an AI chat prompt.
+ * @param command
+ */
+export function getCommandScope(command: string): Scope {
+  if (Object.keys(BuiltInCommands).includes(command)) {
+    return "commands:builtin";
+  }
+  // Macros can inject input, whatever their steps
+  if (findMacro(command)) {
+    return "commands:custom";
+  }
+  const custom = identifyCustomCommand(command);
+  if (custom) {
+    return SCREEN_COMMANDS.includes(custom) ? "screen:view" : "commands:custom";
+  }
+  if (command.toLowerCase().startsWith("@cline")) {
+    return "commands:custom";
+  }
+  return "ai:chat";
+}
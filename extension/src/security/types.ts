@@ -0,0 +1,50 @@
+/**
+ * A permission granted to a paired device, checked for every incoming message.
+ */
+export type Scope =
+  | "screen:view"
+  | "input:mouse"
+  | "input:keyboard"
+  | "commands:builtin"
+  | "commands:custom"
+  | "commands:any"
+  | "files:upload"
+  | "clipboard:read"
+  | "clipboard:write"
+  | "ai:chat";
+
+/**
+ * A phone or tablet that completed the pairing flow.
+ * Only a hash of the device token is kept; the token itself lives on the device.
+ */
+export interface PairedDevice {
+  id: string;
+  name: string;
+  tokenHash: string;
+  pairedAt: number;
+  lastSeenAt: number | null;
+  scopes: Scope[];
+}
+
+export interface PairingCode {
+  code: string;
+  expiresAt: number;
+}
+
+/**
+ * Result of authenticating an incoming WebSocket upgrade request.
+ * `token` is only set when the device was paired by this very request,
+ * so that it can be handed to the device once.
+ */
+export interface DeviceAuthResult {
+  device: PairedDevice;
+  token?: string;
+}
+
+export interface TlsCredentials {
+  cert: string;
+  key: string;
+  fingerprint: string;
+  // Set when this certificate replaced one that paired devices may have pinned
+  renewed: boolean;
+}
@@ -1,11 +1,36 @@
 import * as http from "http";
-import WebSocket from "ws";
+import * as https from "https";
+import * as WebSocket from "ws";
 import * as vscode from "vscode";
-import { handleWebSocketConnection } from "./websockets";
+import {
+  disconnectDevice,
+  handleWebSocketConnection,
+  subscribeToScreen,
+} from "./websockets";
 import { store } from "./state/store";
-import { setServerRunning, setWebSocketServer } from "./state/actions";
+import {
+  setServerRunning,
+  setServerTlsFingerprint,
+  setWebSocketServer,
+} from "./state/actions";
+import { authenticateRequest, revokeDevice } from "./security/pairing";
+import { DeviceAuthResult, TlsCredentials } from "./security/types";
+import { startAdvertising, stopAdvertising } from "./discovery/advertise";
+import { getServerConfig } from "./config";
+import { startRecording } from "./recording/recorder";
 
-export async function startServer(address: string): Promise<void> {
+// The HTTP(S) listener the WebSocket server is attached to
+let listener: http.Server | null = null;
+
+/**
+ * Start the WebSocket server.
+ * @param address address to bind to
+ * @param tls certificate to serve wss:// with, or null for plain ws://
+ */
+export async function startServer(
+  address: string,
+  tls: TlsCredentials | null
+): Promise<void> {
   const { server } = store.getState();
 
   if (server.isRunning) {
@@ -13,36 +38,101 @@ export async function startServer(address: string): Promise<void> {
     return;
   }
 
-  const httpServer = http.createServer();
-  const wss = new WebSocket.Server({ server: httpServer });
+  const httpServer = tls
+    ? https.createServer({ cert: tls.cert, key: tls.key })
+    : http.createServer();
+  const scheme = tls ? "wss" : "ws";
+  // Authentication results, handed from the upgrade request to the connection
+  const authenticated = new WeakMap<http.IncomingMessage, DeviceAuthResult>();
+  const wss = new WebSocket.Server({
+    server: httpServer,
+    verifyClient: (info, callback) => {
+      authenticateRequest(info.req)
+        .then((auth) => {
+          if (!auth) {
+            console.warn("Rejected unpaired WebSocket connection");
+            callback(false, 401, "Unauthorized");
+            return;
+          }
+          authenticated.set(info.req, auth);
+          callback(true);
+        })
+        .catch((error) => {
+          console.error("Error authenticating connection:", error);
+          callback(false, 500);
+        });
+    },
+  });
 
-  wss.on("connection", handleWebSocketConnection);
+  wss.on("connection", (ws: WebSocket, req: http.IncomingMessage) => {
+    const auth = authenticated.get(req);
+    if (!auth) {
+      ws.close(4401, "Unauthorized");
+      return;
+    }
+    authenticated.delete(req);
+    handleWebSocketConnection(ws, auth);
+  });
 
-  return new Promise((resolve, reject) => {
+  await new Promise<void>((resolve, reject) => {
     httpServer.listen(server.port, address, () => {
-      console.log(`AirCodum server started at http://${address}:${server.port}`);
+      console.log(
+        `AirCodum server started at ${scheme}://${address}:${server.port}`
+      );
       vscode.window.showInformationMessage(
-        `AirCodum server started at http://localhost:${server.port}`
+        `AirCodum server started at ${scheme}://${
+          address === "0.0.0.0" ? "localhost" : address
+        }:${server.port}`
       );
+      listener = httpServer;
       setServerRunning(true);
+      setServerTlsFingerprint(tls ? tls.fingerprint : null);
       setWebSocketServer(wss);
       resolve();
     });
     httpServer.on("error", reject);
   });
-}
 
-export function stopServer(): void {
-  const { websocket, webview } = store.getState();
-
-  if (websocket.wss) {
-    websocket.wss.close(() => {
-      console.log("WebSocket server closed.");
+  // A loopback-only server is reached through a tunnel, not the local network
+  if (getServerConfig().discovery && address !== "127.0.0.1") {
+    await startAdvertising({
+      port: server.port,
+      useTls: tls !== null,
+      bindAddress: address,
     });
-    setWebSocketServer(null);
   }
+}
+
+/**
+ * Drop all connections and release the port, leaving the webview open.
+ * Used directly when restarting the server after a settings change.
+ */
+export async function closeServer(): Promise<void> {
+  const { wss } = store.getState().websocket;
+  const httpServer = listener;
+  listener = null;
 
+  setWebSocketServer(null);
   setServerRunning(false);
+  setServerTlsFingerprint(null);
+
+  await stopAdvertising();
+
+  if (wss) {
+    // Closing the server does not end open connections, which would keep the port busy
+    wss.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+    console.log("WebSocket server closed.");
+  }
+  if (httpServer) {
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
+}
+
+export async function stopServer(): Promise<void> {
+  const { webview } = store.getState();
+
+  await closeServer();
 
   if (webview.panel) {
     webview.panel.dispose();
@@ -50,3 +140,21 @@ export function stopServer(): void {
 
   vscode.window.showInformationMessage("AirCodum server stopped");
 }
+
+/**
+ * Revoke a paired device and drop any of its open connections.
+ * @param deviceId
+ */
+export async function revokePairedDevice(deviceId: string): Promise<void> {
+  if (await revokeDevice(deviceId)) {
+    disconnectDevice(deviceId);
+  }
+}
+
+/**
+ * Start recording the screen as streamed to devices, and their input.
+ * @returns the path of the recording
+ */
+export function startSessionRecording(): Promise<string> {
+  return startRecording(subscribeToScreen);
+}
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import * as WebSocket from "ws";
 import { store, AppState } from "./store";
+import { PairedDevice, PairingCode } from "../security/types";
 
 export function setServerRunning(isRunning: boolean) {
   store.setState({
@@ -20,6 +21,42 @@ export function setServerAddress(address: string) {
   });
 }
 
+export function setServerAddresses(addresses: string[]) {
+  store.setState({
+    server: {
+      ...store.getState().server,
+      addresses,
+    },
+  });
+}
+
+export function setServerPort(port: number) {
+  store.setState({
+    server: {
+      ...store.getState().server,
+      port,
+    },
+  });
+}
+
+export function setServerTlsFingerprint(tlsFingerprint: string | null) {
+  store.setState({
+    server: {
+      ...store.getState().server,
+      tlsFingerprint,
+    },
+  });
+}
+
+export function setServerTlsRenewedAt(tlsRenewedAt: number) {
+  store.setState({
+    server: {
+      ...store.getState().server,
+      tlsRenewedAt,
+    },
+  });
+}
+
 export function setWebviewPanel(panel: vscode.WebviewPanel | null) {
   store.setState({
     webview: {
@@ -68,3 +105,21 @@ export function setApiKey(apiKey: string | null) {
     apiKey,
   });
 }
+
+export function setPairingCode(code: PairingCode | null) {
+  store.setState({
+    pairing: {
+      ...store.getState().pairing,
+      code,
+    },
+  });
+}
+
+export function setPairedDevices(devices: PairedDevice[]) {
+  store.setState({
+    pairing: {
+      ...store.getState().pairing,
+      devices,
+    },
+  });
+}
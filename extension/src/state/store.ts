@@ -1,11 +1,18 @@
 import * as vscode from "vscode";
 import * as WebSocket from "ws";
+import { PairedDevice, PairingCode } from "../security/types";
 
 export interface AppState {
   server: {
     isRunning: boolean;
     address: string | null;
+    // Every address devices can reach the server on, for the connection QR code
+    addresses: string[];
     port: number;
+    // SHA-256 fingerprint of the certificate when serving wss://
+    tlsFingerprint: string | null;
+    // When the certificate was last replaced, so devices can be told to trust the new one
+    tlsRenewedAt: number | null;
   };
   webview: {
     panel: vscode.WebviewPanel | null;
@@ -28,6 +35,10 @@ export interface AppState {
     image?: string;
   };
   apiKey: string | null;
+  pairing: {
+    code: PairingCode | null;
+    devices: PairedDevice[];
+  };
 }
 
 class Store {
@@ -39,7 +50,10 @@ class Store {
       server: {
         isRunning: false,
         address: null,
+        addresses: [],
         port: 11040,
+        tlsFingerprint: null,
+        tlsRenewedAt: null,
       },
       webview: {
         panel: null,
@@ -52,6 +66,10 @@ class Store {
         messageType: "none",
       },
       apiKey: null,
+      pairing: {
+        code: null,
+        devices: [],
+      },
     };
     this.listeners = new Set();
   }
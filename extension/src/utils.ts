@@ -1,19 +1,47 @@
 import * as os from "os";
 import { resizeImage as jimpResizeImage } from "./jimp";
 
-export function getIPAddress(): string {
+export interface NetworkAddress {
+  interfaceName: string;
+  address: string;
+  family: "IPv4" | "IPv6";
+}
+
+/**
+ * List the addresses of every non-internal network interface, IPv4 first.
+ */
+export function getNetworkAddresses(): NetworkAddress[] {
   const interfaces = os.networkInterfaces();
+  const addresses: NetworkAddress[] = [];
   for (const devName in interfaces) {
     const iface = interfaces[devName];
     if (iface) {
       for (const alias of iface) {
-        if (alias.family === "IPv4" && !alias.internal) {
-          return alias.address;
+        if (!alias.internal) {
+          addresses.push({
+            interfaceName: devName,
+            address: alias.address,
+            family: alias.family === "IPv4" ? "IPv4" : "IPv6",
+          });
         }
       }
     }
   }
-  return "127.0.0.1";
+  return addresses.sort((a, b) =>
+    a.family === b.family ? 0 : a.family === "IPv4" ? -1 : 1
+  );
+}
+
+/**
+ * Get the IPv4 address devices should connect to.
+ * @param interfaceName prefer this interface (e.g. a Tailscale one) when it is up
+ */
+export function getIPAddress(interfaceName?: string): string {
+  const addresses = getNetworkAddresses().filter((a) => a.family === "IPv4");
+  const preferred = interfaceName
+    ? addresses.find((a) => a.interfaceName === interfaceName)
+    : undefined;
+  return (preferred ?? addresses[0])?.address ?? "127.0.0.1";
 }
 
 export async function resizeImage(
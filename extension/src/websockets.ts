@@ -1,575 +1,997 @@
 import * as vscode from "vscode";
 import * as WebSocket from "ws";
-import { typedRobot as robot } from "./commanding/robotjs-handlers";
-import screenshot from "screenshot-desktop";
 import { handleCommand } from "./commanding/command-handler";
 import { chatWithOpenAI } from "./ai/api";
-import { handleFileUpload } from "./files/utils";
+import { handleFileUpload, isImage, saveFile } from "./files/utils";
 import { store } from "./state/store";
 import {
   addWebSocketConnection,
   removeWebSocketConnection,
 } from "./state/actions";
-import crypto from "crypto";
+import { DeviceAuthResult, Scope } from "./security/types";
+import { getPairedDevice } from "./security/pairing";
+import { getCommandScope, hasScope } from "./security/scopes";
+import {
+  describeCommand,
+  recordAudit,
+  redactKey,
+  redactText,
+  shouldRedactTypedText,
+} from "./audit/log";
+import { AuditEntry, AuditOutcome } from "./audit/types";
+import {
+  ClientMessage,
+  ClipboardPushMessage,
+  ErrorMessage,
+  HelloMessage,
+  KeyboardEventMessage,
+  MessageId,
+  MIN_PROTOCOL_VERSION,
+  MouseEventMessage,
+  PROTOCOL_VERSION,
+  QualityUpdateMessage,
+  SelectDisplayMessage,
+  SetRegionMessage,
+  ServerMessage,
+  SERVER_CAPABILITIES,
+  TextInputMessage,
+} from "./protocol/messages";
+import { parseClientMessage, ProtocolError } from "./protocol/validate";
+import { encodeFrame, encodeTiles } from "./protocol/frames";
+import {
+  DisplaySelection,
+  getDisplays,
+  getSelectionBounds,
+  isValidSelection,
+  mapToScreen,
+  PRIMARY_DISPLAY,
+  VIRTUAL_DESKTOP,
+} from "./capture/displays";
+import { applyRegion, Region } from "./capture/regions";
+import {
+  ClientLoad,
+  FrameSubscription,
+  FrameUpdate,
+  ScreenCaptureManager,
+  VNCQualitySettings,
+} from "./capture/manager";
+import { getSavedRegions } from "./config";
+import {
+  getInputBackend,
+  InputUnavailableError,
+  isInputAvailable,
+} from "./input/backend";
+import { injectMouseEvent, ScrollAccumulator } from "./input/mouse";
+import { HeldKeys, injectKeyEvent } from "./input/keyboard";
+import { lookupKey } from "./input/keys";
+import { typeText } from "./input/text";
+import {
+  readClipboard,
+  watchClipboard,
+  writeClipboard,
+} from "./clipboard/sync";
+import {
+  RecordableInput,
+  recordInput,
+  ScreenSource,
+} from "./recording/recorder";
 
-import { Commands } from "./commanding/commands";
-import jimp from "./jimp";
-import { ResizeStrategy } from "jimp";
+import { BuiltInCommands } from "./commanding/commands";
+import { CommandParseError, isCustomCommand } from "./commanding/grammar";
+import { findMacro } from "./commanding/macros";
+import { matchCommand } from "./commanding/matcher";
+import { getCommandCatalog, runCatalogCommand } from "./commanding/catalog";
 
-interface VNCQualitySettings {
-  width: number;
-  jpegQuality: number;
-  fps: number;
-}
+type AuditAction = Pick<AuditEntry, "type" | "command" | "args">;
+
+// Frames not acknowledged by then are assumed lost, so that missed acks do not stall a client
+const FRAME_ACK_TIMEOUT = 5000; // ms
 
 /**
- * Manages screen capture for all connected clients.
- * Features frame coalescing and adaptive quality settings.
+ * Per-connection class that handles the WebSocket for:
+ * - Sending frames as Base64 (to maintain existing client contracts)
+ * - Handling user input
+ * - Handling commands
+ * Every message is checked against the scopes granted to the paired device.
+ * Clients that open with a `hello` handshake speak the typed protocol in
+ * ./protocol; others are served the legacy raw-text protocol.
  */
-class ScreenCaptureManager {
-  private static instance: ScreenCaptureManager;
-  private isCapturing = false;
-  private captureInterval: NodeJS.Timeout | null = null;
-
-  // Base configuration with better defaults
-  private quality: VNCQualitySettings = {
-    width: 1440,        // Default width for good quality
-    jpegQuality: 85,    // Start with good quality
-    fps: 45,           // Target FPS
-  };
-
-  // Frame management
-  private processingFrame = false;
-  private lastFrameHash: string | null = null;
-  private lastFrameSentTime = 0;
-  private lastFrameSize = 0;
-
-  // Frame coalescing
-  private pendingFrames: Buffer[] = [];
-  private coalesceTimer: NodeJS.Timeout | null = null;
-  private readonly COALESCE_MAX_WAIT = 100; // ms
-  private readonly MIN_FRAME_INTERVAL = 33;  // ~30fps cap
-
-  // Performance tracking
-  private frameProcessingTimes: number[] = [];
-  private lastPerformanceCheck = Date.now();
-  private droppedFrames = 0;
-  private framesSent = 0;
+class VSCodeVNCConnection {
+  private subscription: FrameSubscription | null = null;
+  private unsubscribeFromStore: (() => void) | null = null;
+  private scopes: Scope[] | null = null;
+  // Negotiated protocol version, or null for legacy clients
+  private protocolVersion: number | null = null;
+  private clientCapabilities = new Set<string>();
+  // Id of the announced `file-upload` the next binary frame belongs to
+  private pendingUploadId: MessageId | undefined;
+  // Sequence number of the next screen frame
+  private frameSequence = 0;
+  // When each unacknowledged frame was sent, by sequence number
+  private frameSentAt = new Map<number, number>();
+  // Moving average of the time frames take to be acknowledged
+  private ackLatency: number | null = null;
+  // Quality the client asked for, kept when switching displays
+  private quality: Partial<VNCQualitySettings> = {};
+  // Display streamed to this client and targeted by its mouse events
+  private display: DisplaySelection = PRIMARY_DISPLAY;
+  // Part of the display streamed to this client, or null for all of it
+  private region: Region | null = null;
+  // Two-finger pan distance not yet scrolled
+  private scroll = new ScrollAccumulator();
+  // Keys held down by this client's keyboard events
+  private heldKeys = new HeldKeys();
+  // Stops sending clipboard changes, while the client has clipboard sync on
+  private unwatchClipboard: (() => void) | null = null;
+
+  constructor(
+    private ws: WebSocket,
+    private deviceId: string
+  ) {
+    this.setupWebSocketHandlers();
+    this.syncScopes();
+    // Scopes can be edited from the webview while the device is connected
+    this.unsubscribeFromStore = store.subscribe(() => this.syncScopes());
+  }
 
-  // Quality control
-  private readonly MIN_QUALITY = 80;
-  private readonly MAX_QUALITY = 90;
-  private readonly MIN_WIDTH = 1024;
-  private readonly MAX_WIDTH = 1920;
-  private readonly PERFORMANCE_CHECK_INTERVAL = 2000; // ms
+  private syncScopes() {
+    const scopes = getPairedDevice(this.deviceId)?.scopes ?? [];
+    if (scopes === this.scopes) return;
+    this.scopes = scopes;
 
-  private subscribers: Array<(frame: Buffer, dimensions: { width: number; height: number }) => void> = [];
-  private screenSize = robot.getScreenSize();
-  private cachedDimensions = this.getScaledDimensions();
+    this.send({ type: "scopes", scopes });
 
-  private constructor() {
-    this.setupPerformanceMonitoring();
+    if (scopes.includes("screen:view") && !this.subscription) {
+      this.subscribeToFrameUpdates();
+    } else if (!scopes.includes("screen:view") && this.subscription) {
+      this.unsubscribeFromFrameUpdates();
+    }
+    if (!scopes.includes("clipboard:read")) {
+      this.stopClipboardSync();
+    }
   }
 
-  public static getInstance(): ScreenCaptureManager {
-    if (!ScreenCaptureManager.instance) {
-      ScreenCaptureManager.instance = new ScreenCaptureManager();
+  /**
+   * Check that the device holds every scope, replying with an error naming
+   * the first it lacks.
+   * @param scopes
+   * @param id id of the request being authorized, if it has one
+   */
+  private authorize(scopes: Scope | Scope[], id?: MessageId): boolean {
+    const device = getPairedDevice(this.deviceId);
+    const scope = [scopes]
+      .flat()
+      .find((required) => !device || !hasScope(device, required));
+    if (!scope) {
+      return true;
     }
-    return ScreenCaptureManager.instance;
+    this.reject(id, {
+      code: "permission-denied",
+      message: `Permission denied: this device lacks the "${scope}" scope`,
+      scope,
+    });
+    return false;
   }
 
-  private setupPerformanceMonitoring() {
-    setInterval(() => {
-      if (!this.isCapturing) return;
-
-      const dropRate = (this.droppedFrames / (this.droppedFrames + this.framesSent)) * 100;
-      const avgFrameSize = this.lastFrameSize / 1024;
-      const avgProcessingTime = this.getAverageProcessingTime();
-
-      console.debug(
-        `Performance: FPS=${this.framesSent}, Dropped=${this.droppedFrames}, ` +
-        `Drop Rate=${dropRate.toFixed(1)}%, Size=${avgFrameSize.toFixed(1)}KB, ` +
-        `Processing=${avgProcessingTime.toFixed(1)}ms, Quality=${this.quality.jpegQuality}`
-      );
-
-      this.droppedFrames = 0;
-      this.framesSent = 0;
-    }, 1000);
+  private send(message: ServerMessage) {
+    sendMessage(this.ws, message);
   }
 
-  public subscribe(
-    callback: (frame: Buffer, dimensions: { width: number; height: number }) => void
-  ): () => void {
-    this.subscribers.push(callback);
-    if (!this.isCapturing) {
-      this.startCaptureLoop();
+  /**
+   * Report a failed request: as its `response` when it has an id, otherwise
+   * as a standalone `error` message.
+   * @param id
+   * @param error
+   */
+  private reject(id: MessageId | undefined, error: Omit<ErrorMessage, "type">) {
+    if (id !== undefined) {
+      this.send({ type: "response", id, status: "error", error });
+    } else {
+      this.send({ type: "error", ...error });
     }
-    return () => {
-      this.subscribers = this.subscribers.filter((cb) => cb !== callback);
-      if (this.subscribers.length === 0) {
-        this.stopCaptureLoop();
-      }
-    };
   }
 
-  private startCaptureLoop() {
-    if (this.isCapturing) return;
-    this.isCapturing = true;
-
-    const captureFrame = async () => {
-      if (!this.isCapturing) return;
-
-      const now = performance.now();
-      const timeSinceLastFrame = now - this.lastFrameSentTime;
+  private respond(id: MessageId | undefined, result?: unknown) {
+    if (id !== undefined) {
+      this.send({ type: "response", id, status: "ok", result });
+    }
+  }
 
-      // Skip frame if we're processing or it's too soon
-      if (this.processingFrame || timeSinceLastFrame < this.MIN_FRAME_INTERVAL) {
-        this.droppedFrames++;
+  /**
+   * Run a handler if the device holds `scopes`, recording the outcome in the audit log.
+   * Requests with an id are answered with the handler's result or error.
+   * @param scopes one scope, or several that are all needed
+   * @param action what to audit, or null for high-frequency events that are not audited
+   * @param handler
+   * @param id
+   */
+  private async perform(
+    scopes: Scope | Scope[],
+    action: AuditAction | null,
+    handler: () => unknown,
+    id?: MessageId
+  ) {
+    if (!this.authorize(scopes, id)) {
+      this.audit(action, "denied");
+      return;
+    }
+    try {
+      const result = await handler();
+      this.audit(action, "ok");
+      this.respond(id, result);
+    } catch (error: any) {
+      console.error(`Error handling ${action?.type ?? "message"}:`, error);
+      this.audit(action, "error", error.message);
+      // Legacy clients were already told through the webview or a dedicated
+      // error message, and only get the details when they asked with an id
+      if (id === undefined && this.protocolVersion === null) {
         return;
       }
+      this.reject(id, {
+        code:
+          error instanceof InputUnavailableError
+            ? "input-unavailable"
+            : error instanceof CommandParseError
+              ? "invalid-command"
+              : "command-failed",
+        message: error.message,
+      });
+    }
+  }
 
-      try {
-        const raw = await screenshot();
-        await this.handleNewFrame(raw);
-      } catch (error) {
-        console.error("Capture error:", error);
-      }
-
-      // Schedule next capture with dynamic interval
-      const nextInterval = Math.max(
-        this.MIN_FRAME_INTERVAL,
-        1000 / this.quality.fps
-      );
-      setTimeout(captureFrame, nextInterval);
-    };
-
-    captureFrame();
+  private audit(
+    action: AuditAction | null,
+    outcome: AuditOutcome,
+    error?: string
+  ) {
+    if (!action) return;
+    recordAudit({
+      timestamp: Date.now(),
+      deviceId: this.deviceId,
+      deviceName: getPairedDevice(this.deviceId)?.name ?? "Unknown device",
+      ...action,
+      outcome,
+      error,
+    });
   }
 
-  private calculateFrameHash(buffer: Buffer): string {
-    // Sample 32 points across the frame for quick comparison
-    const samples = new Uint8Array(32);
-    const step = Math.floor(buffer.length / 32);
-    const offset = Math.floor(step / 2);
+  /**
+   * Add authorized input to the session recording, if one is running.
+   * @param message
+   */
+  private record(message: RecordableInput) {
+    recordInput(
+      getPairedDevice(this.deviceId)?.name ?? "Unknown device",
+      message
+    );
+  }
 
-    for (let i = 0; i < 32; i++) {
-      samples[i] = buffer[offset + i * step];
-    }
+  private setupWebSocketHandlers() {
+    this.ws.on(
+      "message",
+      async (message: WebSocket.Data, isBinary: boolean) => {
+        if (message instanceof Buffer) {
+          await this.handleBufferMessage(message, isBinary);
+        } else if (typeof message === "string") {
+          await this.handleStringMessage(message);
+        }
+      }
+    );
 
-    return crypto.createHash("md5").update(samples).digest("hex");
+    this.ws.on("close", () => {
+      this.dispose();
+    });
   }
 
-  private async handleNewFrame(frame: Buffer) {
-    const frameHash = this.calculateFrameHash(frame);
-    if (frameHash === this.lastFrameHash) {
-      this.droppedFrames++;
+  private async handleBufferMessage(message: Buffer, isBinary: boolean) {
+    // Versioned clients send files as binary frames and everything else as JSON text
+    if (this.protocolVersion !== null && isBinary) {
+      const id = this.pendingUploadId;
+      this.pendingUploadId = undefined;
+      await this.uploadFile(message, id);
       return;
     }
 
-    this.lastFrameHash = frameHash;
-    this.pendingFrames.push(frame);
-
-    // Start coalescing timer if not already running
-    if (!this.coalesceTimer) {
-      this.coalesceTimer = setTimeout(() => {
-        this.processCoalescedFrames();
-      }, this.COALESCE_MAX_WAIT);
+    const messageData = message.toString();
+    const parsedMessage = this.parse(messageData);
+    if (parsedMessage) {
+      await this.handleMessage(parsedMessage);
+    } else if (parsedMessage === null) {
+      // Legacy clients send raw text commands and files alike
+      await this.handleCommandOrFile(message, messageData);
     }
   }
 
-  private async processCoalescedFrames() {
-    if (this.pendingFrames.length === 0 || this.processingFrame) return;
-
-    this.processingFrame = true;
-    this.coalesceTimer = null;
-
-    // Process most recent frame
-    const frame = this.pendingFrames[this.pendingFrames.length - 1];
-    this.pendingFrames = [];
-
+  /**
+   * Parse a text frame, replying with an error if it is malformed.
+   * @returns the message, null for legacy raw text, or undefined if it was rejected
+   */
+  private parse(data: string): ClientMessage | null | undefined {
     try {
-      const startTime = performance.now();
-      const processedFrame = await this.processFrame(frame);
-      const processingTime = performance.now() - startTime;
-
-      this.updatePerformanceMetrics(processingTime);
-      this.adjustQualityIfNeeded();
-
-      this.framesSent++;
-      this.lastFrameSentTime = performance.now();
-      this.lastFrameSize = processedFrame.length;
-
-      // Notify subscribers
-      this.subscribers.forEach((cb) => cb(processedFrame, this.cachedDimensions));
+      return parseClientMessage(data, this.protocolVersion !== null);
     } catch (error) {
-      console.error("Frame processing error:", error);
-    } finally {
-      this.processingFrame = false;
-
-      // Process any frames that arrived during processing
-      if (this.pendingFrames.length > 0) {
-        this.coalesceTimer = setTimeout(() => {
-          this.processCoalescedFrames();
-        }, Math.min(this.COALESCE_MAX_WAIT, this.MIN_FRAME_INTERVAL));
+      if (error instanceof ProtocolError) {
+        this.reject(error.id, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+        return undefined;
       }
+      throw error;
     }
   }
 
-  private async processFrame(frame: Buffer): Promise<Buffer> {
-    const image = await jimp.createImage(frame);
-
-    // Resize if needed
-    if (image.width !== this.cachedDimensions.width || 
-        image.height !== this.cachedDimensions.height) {
-      const resizeMode = this.isProcessingSlow()
-        ? ResizeStrategy.NEAREST_NEIGHBOR  // Faster but lower quality
-        : ResizeStrategy.BILINEAR;         // Better quality
+  private async handleMessage(message: ClientMessage) {
+    switch (message.type) {
+      case "hello":
+        this.handshake(message);
+        break;
+      case "mouse-event":
+        await this.perform(
+          "input:mouse",
+          // Pointer moves and scrolling are too frequent to audit individually
+          ["move", "scroll", "two-finger-scroll"].includes(message.eventType)
+            ? null
+            : {
+                type: "mouse-event",
+                args: { eventType: message.eventType, button: message.button },
+              },
+          () => {
+            this.record(message);
+            return this.handleMouseEvent(message);
+          },
+          message.id
+        );
+        break;
+      case "keyboard-event":
+        await this.perform(
+          "input:keyboard",
+          {
+            type: "keyboard-event",
+            args: {
+              key: redactKey(message.key, shouldRedactTypedText()),
+              modifier: message.modifier,
+              eventType: message.eventType,
+            },
+          },
+          () => {
+            this.record(message);
+            return this.handleKeyboardEvent(message);
+          },
+          message.id
+        );
+        break;
+      case "text-input":
+        await this.perform(
+          "input:keyboard",
+          {
+            type: "text-input",
+            args: { text: redactText(message.text, shouldRedactTypedText()) },
+          },
+          () => {
+            this.record(message);
+            return this.handleTextInput(message);
+          },
+          message.id
+        );
+        break;
+      case "quality-update":
+        await this.perform(
+          "screen:view",
+          { type: "quality-update" },
+          () => this.updateQuality(message),
+          message.id
+        );
+        break;
+      case "command":
+        await this.runCommand(message.command, message.id);
+        break;
+      case "chat":
+        await this.perform(
+          "ai:chat",
+          this.chatAuditAction(message.prompt),
+          () => {
+            this.record(message);
+            return this.chat(message.prompt);
+          },
+          message.id
+        );
+        break;
+      case "file-upload":
+        // Answered once the binary frame that follows has been saved
+        this.pendingUploadId = message.id;
+        break;
+      case "refresh":
+        await this.perform(
+          "screen:view",
+          null,
+          () => this.subscription?.requestKeyframe(),
+          message.id
+        );
+        break;
+      case "frame-ack":
+        // Too frequent to authorize or audit; it only paces this client's own stream
+        this.acknowledgeFrame(message.sequence);
+        break;
+      case "list-displays":
+        await this.perform(
+          "screen:view",
+          null,
+          () => this.sendDisplays(true),
+          message.id
+        );
+        break;
+      case "select-display":
+        await this.perform(
+          "screen:view",
+          { type: "select-display", args: { display: message.display } },
+          () => this.selectDisplay(message),
+          message.id
+        );
+        break;
+      case "set-region":
+        await this.perform(
+          "screen:view",
+          { type: "set-region", args: { region: message.region } },
+          () => this.setRegion(message),
+          message.id
+        );
+        break;
+      case "clipboard-push":
+        await this.perform(
+          // Images are saved into the workspace like uploaded files, and
+          // their path goes on the clipboard
+          message.format === "image"
+            ? ["files:upload", "clipboard:write"]
+            : "clipboard:write",
+          {
+            type: "clipboard-push",
+            args:
+              message.format === "image"
+                ? { format: message.format }
+                : {
+                    format: message.format,
+                    text: redactText(message.data, shouldRedactTypedText()),
+                  },
+          },
+          () => this.pushClipboard(message),
+          message.id
+        );
+        break;
+      case "clipboard-pull":
+        await this.perform(
+          "clipboard:read",
+          { type: "clipboard-pull" },
+          async () =>
+            this.send({ type: "clipboard", text: await readClipboard() }),
+          message.id
+        );
+        break;
+      case "list-commands":
+        await this.perform(
+          "commands:builtin",
+          null,
+          async () =>
+            this.send({
+              type: "commands",
+              commands: await getCommandCatalog(),
+            }),
+          message.id
+        );
+        break;
+      case "run-command":
+        await this.perform(
+          "commands:any",
+          { type: "command", command: message.command },
+          () => {
+            this.record({ type: "command", command: message.command });
+            return runCatalogCommand(message.command);
+          },
+          message.id
+        );
+        break;
+      case "clipboard-sync":
+        await this.perform(
+          "clipboard:read",
+          { type: "clipboard-sync", args: { enabled: message.enabled } },
+          () => this.syncClipboard(message.enabled),
+          message.id
+        );
+        break;
+    }
+  }
 
-      image.resize({
-        w: this.cachedDimensions.width,
-        h: this.cachedDimensions.height,
-        mode: resizeMode,
+  private handshake(message: HelloMessage) {
+    if (message.protocolVersion < MIN_PROTOCOL_VERSION) {
+      this.reject(message.id, {
+        code: "unsupported-version",
+        message:
+          `Protocol version ${message.protocolVersion} is no longer supported; ` +
+          `update the app to version ${MIN_PROTOCOL_VERSION} or later`,
       });
+      this.ws.close(4400, "Unsupported protocol version");
+      return;
     }
-
-    // Adjust quality based on motion
-    const quality = this.detectHighMotion()
-      ? Math.max(this.MIN_QUALITY, this.quality.jpegQuality - 10)
-      : this.quality.jpegQuality;
-
-    return image.getBuffer("image/jpeg", {
-      quality,
-      progressive: false,
-      chromaSubsampling: true,
-      fastEntropy: true,
+    this.protocolVersion = Math.min(message.protocolVersion, PROTOCOL_VERSION);
+    this.clientCapabilities = new Set(message.capabilities);
+    // Frames may now be delivered differently, e.g. as tiles
+    this.resubscribeToFrameUpdates();
+    this.send({
+      type: "welcome",
+      protocolVersion: this.protocolVersion,
+      capabilities: isInputAvailable()
+        ? SERVER_CAPABILITIES
+        : [...SERVER_CAPABILITIES, "input-unavailable"],
+      deviceId: this.deviceId,
     });
+    this.respond(message.id);
   }
 
-  private updatePerformanceMetrics(processingTime: number) {
-    this.frameProcessingTimes.push(processingTime);
-    if (this.frameProcessingTimes.length > 30) {
-      this.frameProcessingTimes.shift();
+  private async handleCommandOrFile(message: Buffer, messageData: string) {
+    if (this.isSupportedCommand(messageData)) {
+      await this.runCommand(messageData);
+    } else {
+      await this.uploadFile(message);
     }
   }
 
-  private detectHighMotion(): boolean {
-    if (this.frameProcessingTimes.length < 5) return false;
-    const recentTimes = this.frameProcessingTimes.slice(-5);
-    const avgTime = recentTimes.reduce((a, b) => a + b, 0) / recentTimes.length;
-    return avgTime > this.MIN_FRAME_INTERVAL * 0.7;
-  }
+  private async runCommand(utterance: string, id?: MessageId) {
+    let command = utterance;
+    // Dictation rarely names a built-in command word for word
+    if (getCommandScope(command) === "ai:chat") {
+      const { match, candidates } = matchCommand(command);
+      if (match) {
+        command = match.name;
+      } else if (
+        candidates.length > 0 &&
+        this.clientCapabilities.has("command-candidates")
+      ) {
+        // Let the user pick one instead of asking the AI
+        await this.perform(
+          "commands:builtin",
+          null,
+          () => ({ candidates }),
+          id
+        );
+        return;
+      }
+    }
 
-  private isProcessingSlow(): boolean {
-    const avgTime = this.getAverageProcessingTime();
-    return avgTime > this.MIN_FRAME_INTERVAL * 0.8;
+    const scope = getCommandScope(command);
+    await this.perform(
+      scope,
+      scope === "ai:chat"
+        ? this.chatAuditAction(command)
+        : {
+            type: "command",
+            ...describeCommand(command, shouldRedactTypedText()),
+          },
+      async () => {
+        this.record({ type: "command", command });
+        const result = await handleCommand(command, this.ws, this.display);
+        // Tell the client which command its words were taken for
+        return command === utterance ? result : { command };
+      },
+      id
+    );
   }
 
-  private getAverageProcessingTime(): number {
-    if (this.frameProcessingTimes.length === 0) return 0;
-    return (
-      this.frameProcessingTimes.reduce((a, b) => a + b, 0) /
-      this.frameProcessingTimes.length
+  private async uploadFile(message: Buffer, id?: MessageId) {
+    await this.perform(
+      "files:upload",
+      { type: "file-upload", args: { size: message.length } },
+      () => handleFileUpload(message, this.ws),
+      id
     );
   }
 
-  private adjustQualityIfNeeded() {
-    const now = Date.now();
-    if (now - this.lastPerformanceCheck < this.PERFORMANCE_CHECK_INTERVAL) return;
+  private chatAuditAction(prompt: string): AuditAction {
+    return {
+      type: "chat",
+      args: { prompt: shouldRedactTypedText() ? "[redacted]" : prompt },
+    };
+  }
 
-    const avgProcessingTime = this.getAverageProcessingTime();
-    const dropRate = this.droppedFrames / (this.droppedFrames + this.framesSent);
+  private async handleStringMessage(message: string) {
+    const parsedMessage = this.parse(message);
+    if (parsedMessage) {
+      await this.handleMessage(parsedMessage);
+    } else if (parsedMessage === null) {
+      // If not recognized JSON, treat it as text for AI chat
+      await this.perform("ai:chat", this.chatAuditAction(message), () => {
+        this.record({ type: "chat", prompt: message });
+        return this.chat(message);
+      });
+    }
+  }
 
-    if (dropRate > 0.2 || avgProcessingTime > this.MIN_FRAME_INTERVAL) {
-      // Reduce quality more aggressively when dropping frames
-      this.quality.jpegQuality = Math.max(
-        this.MIN_QUALITY,
-        this.quality.jpegQuality - 5
-      );
-      this.quality.width = Math.max(
-        this.MIN_WIDTH,
-        this.quality.width - 128
-      );
-      this.cachedDimensions = this.getScaledDimensions();
-    } 
-    else if (dropRate < 0.05 && avgProcessingTime < this.MIN_FRAME_INTERVAL * 0.5) {
-      // Gradually improve quality when performance is good
-      this.quality.jpegQuality = Math.min(
-        this.MAX_QUALITY,
-        this.quality.jpegQuality + 1
-      );
-      this.quality.width = Math.min(
-        this.MAX_WIDTH,
-        this.quality.width + 64
+  private async chat(message: string): Promise<{ response: string }> {
+    // Chat with OpenAI fallback
+    try {
+      const response = await chatWithOpenAI(
+        message,
+        store.getState().apiKey || ""
       );
-      this.cachedDimensions = this.getScaledDimensions();
+      store.getState().webview.panel?.webview.postMessage({
+        type: "chatResponse",
+        response,
+      });
+      return { response };
+    } catch (error: any) {
+      store.getState().webview.panel?.webview.postMessage({
+        type: "error",
+        message: "Error chatting with AI",
+      });
+      throw error;
     }
-
-    this.lastPerformanceCheck = now;
   }
 
-  private getScaledDimensions() {
-    const { width } = this.quality;
-    const { width: realWidth, height: realHeight } = this.screenSize;
-    const height = Math.floor(width * (realHeight / realWidth));
-    return { width, height };
+  /**
+   * Tell the client which displays it can pick from.
+   * @param refresh list the displays again rather than using the cached list
+   */
+  private async sendDisplays(refresh = false) {
+    const displays = await getDisplays(refresh);
+    this.send({
+      type: "displays",
+      displays,
+      selected: this.display,
+      region: this.region,
+      regions: getSavedRegions(),
+    });
   }
 
-  public updateQualitySettings(quality: Partial<VNCQualitySettings>) {
-    let changed = false;
-
-    if (quality.width !== undefined && 
-        quality.width >= this.MIN_WIDTH && 
-        quality.width <= this.MAX_WIDTH && 
-        quality.width !== this.quality.width) {
-      this.quality.width = quality.width;
-      this.cachedDimensions = this.getScaledDimensions();
-      changed = true;
-    }
-
-    if (quality.jpegQuality !== undefined && 
-        quality.jpegQuality >= this.MIN_QUALITY && 
-        quality.jpegQuality <= this.MAX_QUALITY && 
-        quality.jpegQuality !== this.quality.jpegQuality) {
-      this.quality.jpegQuality = quality.jpegQuality;
-      changed = true;
+  private async selectDisplay(message: SelectDisplayMessage) {
+    const displays = await getDisplays();
+    if (!isValidSelection(message.display, displays)) {
+      throw new Error(
+        message.display === VIRTUAL_DESKTOP
+          ? "The positions of the displays are unknown"
+          : `Unknown display: ${message.display}`
+      );
     }
-
-    if (quality.fps !== undefined && 
-        quality.fps >= 1 && 
-        quality.fps <= 60 && 
-        quality.fps !== this.quality.fps) {
-      this.quality.fps = quality.fps;
-      changed = true;
+    if (message.display !== this.display) {
+      this.display = message.display;
+      // A region is relative to the display it was chosen on
+      this.region = null;
+      this.resubscribeToFrameUpdates();
     }
+    await this.sendDisplays();
+  }
 
-    if (changed) {
-      this.resetPerformanceMetrics();
+  private async setRegion(message: SetRegionMessage) {
+    let region = message.region;
+    if (typeof region === "string") {
+      const saved = getSavedRegions()[region];
+      if (!saved) {
+        throw new Error(`Unknown region: ${region}`);
+      }
+      region = saved;
     }
+    this.region = region;
+    this.resubscribeToFrameUpdates();
+    await this.sendDisplays();
   }
 
-  private resetPerformanceMetrics() {
-    this.frameProcessingTimes = [];
-    this.lastPerformanceCheck = Date.now();
-    this.droppedFrames = 0;
-    this.framesSent = 0;
+  private updateQuality(message: QualityUpdateMessage) {
+    const { width, jpegQuality, fps } = message;
+    this.quality = {
+      ...this.quality,
+      ...(width !== undefined && { width }),
+      ...(jpegQuality !== undefined && { jpegQuality }),
+      ...(fps !== undefined && { fps }),
+    };
+    return this.subscription?.updateQuality(this.quality);
   }
 
-  private stopCaptureLoop() {
-    if (this.captureInterval) {
-      clearInterval(this.captureInterval);
-      this.captureInterval = null;
-    }
-    if (this.coalesceTimer) {
-      clearTimeout(this.coalesceTimer);
-      this.coalesceTimer = null;
+  private resubscribeToFrameUpdates() {
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+      this.subscribeToFrameUpdates();
     }
-    this.isCapturing = false;
-    this.lastFrameHash = null;
-    this.pendingFrames = [];
-    this.resetPerformanceMetrics();
   }
 
-  public getQualitySettings(): VNCQualitySettings {
-    return { ...this.quality };
+  private subscribeToFrameUpdates() {
+    const manager = ScreenCaptureManager.getInstance(this.display, this.region);
+    // Most recent last, so that a client that switches displays is followed
+    screenViewers.delete(this);
+    screenViewers.set(this, manager);
+    updateRecordingFeed();
+    // Subscribe to frames as they arrive
+    this.subscription = manager.subscribe(
+      (update) => this.sendFrameUpdate(update),
+      {
+        tiles:
+          this.clientCapabilities.has("binary-frames") &&
+          this.clientCapabilities.has("tiles"),
+        getLoad: () => this.getLoad(),
+        quality: this.quality,
+      }
+    );
   }
-}
 
-/**
- * Per-connection class that handles the WebSocket for:
- * - Sending frames as Base64 (to maintain existing client contracts)
- * - Handling user input
- * - Handling commands
- */
-class VSCodeVNCConnection {
-  private unsubscribe: (() => void) | null = null;
-  private screenSize = robot.getScreenSize();
+  private unsubscribeFromFrameUpdates() {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    screenViewers.delete(this);
+    updateRecordingFeed();
+  }
 
-  constructor(private ws: WebSocket) {
-    this.setupWebSocketHandlers();
-    this.subscribeToFrameUpdates();
+  /**
+   * How far behind this client is, which adapts the quality it is sent.
+   */
+  private getLoad(): ClientLoad {
+    let unackedFrames: number | null = null;
+    if (this.clientCapabilities.has("frame-acks")) {
+      const cutoff = Date.now() - FRAME_ACK_TIMEOUT;
+      for (const [sequence, sentAt] of this.frameSentAt) {
+        if (sentAt < cutoff) {
+          this.frameSentAt.delete(sequence);
+        }
+      }
+      unackedFrames = this.frameSentAt.size;
+    }
+    return {
+      bufferedAmount: this.ws.bufferedAmount,
+      unackedFrames,
+      latency: this.ackLatency,
+    };
   }
 
-  private setupWebSocketHandlers() {
-    this.ws.on("message", async (message: WebSocket.Data) => {
-      if (message instanceof Buffer) {
-        await this.handleBufferMessage(message);
-      } else if (typeof message === "string") {
-        await this.handleStringMessage(message);
+  private acknowledgeFrame(sequence: number) {
+    const sentAt = this.frameSentAt.get(sequence);
+    if (sentAt !== undefined) {
+      const latency = Date.now() - sentAt;
+      this.ackLatency =
+        this.ackLatency === null
+          ? latency
+          : this.ackLatency * 0.8 + latency * 0.2;
+    }
+    // Acknowledging a frame implies the client is done with earlier ones
+    for (const pending of this.frameSentAt.keys()) {
+      if (pending <= sequence) {
+        this.frameSentAt.delete(pending);
       }
-    });
+    }
+  }
 
-    this.ws.on("close", () => {
-      this.dispose();
+  private sendFrameUpdate(update: FrameUpdate) {
+    const sequence = this.frameSequence++;
+    if (this.clientCapabilities.has("frame-acks")) {
+      this.frameSentAt.set(sequence, Date.now());
+    }
+    if (this.clientCapabilities.has("binary-frames")) {
+      this.ws.send(
+        encodeFrame(
+          {
+            kind: update.keyframe ? "screen" : "tiles",
+            codec: "jpeg",
+            sequence,
+            ...update.dimensions,
+            timestamp: update.capturedAt,
+          },
+          update.keyframe ? update.image : encodeTiles(update.tiles)
+        )
+      );
+      return;
+    }
+    if (!update.keyframe) return;
+
+    // Clients without binary frames get whole frames as Base64
+    this.send({
+      type: "screen-update",
+      image: update.image.toString("base64"),
+      dimensions: update.dimensions,
+      sequence,
     });
   }
 
-  private async handleBufferMessage(message: Buffer) {
-    const messageData = message.toString();
-    try {
-      const parsedMessage = JSON.parse(messageData);
-      switch (parsedMessage.type) {
-        case "mouse-event":
-          await this.handleMouseEvent(parsedMessage);
-          break;
-        case "keyboard-event":
-          await this.handleKeyboardEvent(parsedMessage);
-          break;
-        case "quality-update":
-          ScreenCaptureManager.getInstance().updateQualitySettings(
-            parsedMessage
-          );
-          break;
-        default:
-          if (this.isSupportedCommand(messageData)) {
-            await handleCommand(messageData as never, this.ws);
-          } else {
-            await handleFileUpload(message, this.ws);
-          }
-      }
-    } catch (error) {
-      // If not JSON or parse error, treat as command or file
-      if (this.isSupportedCommand(messageData)) {
-        await handleCommand(messageData as never, this.ws);
-      } else {
-        await handleFileUpload(message, this.ws);
-      }
+  private async handleMouseEvent(data: MouseEventMessage) {
+    const { x, y, screenWidth, screenHeight } = data;
+
+    let bounds = getSelectionBounds(this.display, await getDisplays());
+    if (bounds && this.region) {
+      bounds = applyRegion(bounds, this.region);
+    }
+    if (!bounds) {
+      throw new Error(
+        "The position of this display is unknown, so it cannot take mouse input"
+      );
     }
+    // Convert from client space to actual screen coordinates
+    const actual = mapToScreen(bounds, x, y, screenWidth, screenHeight);
+
+    injectMouseEvent(
+      getInputBackend(),
+      data,
+      actual,
+      bounds.width / screenWidth,
+      this.scroll
+    );
   }
 
-  private async handleStringMessage(message: string) {
-    try {
-      const parsedMessage = JSON.parse(message);
-      if (parsedMessage.type === "quality-update") {
-        ScreenCaptureManager.getInstance().updateQualitySettings(parsedMessage);
-        return;
-      }
-      // If not recognized JSON, treat it as text for AI chat
-      throw new Error("Not recognized JSON");
-    } catch {
-      // Chat with OpenAI fallback
-      try {
-        const response = await chatWithOpenAI(
-          message,
-          store.getState().apiKey || ""
-        );
-        store.getState().webview.panel?.webview.postMessage({
-          type: "chatResponse",
-          response,
-        });
-      } catch (error: any) {
-        store.getState().webview.panel?.webview.postMessage({
-          type: "error",
-          message: "Error chatting with AI",
-        });
-      }
+  private async handleKeyboardEvent(data: KeyboardEventMessage) {
+    const { key, modifier, eventType = "press" } = data;
+    // Characters without a key, e.g. "é", can still be typed when pressed alone
+    if (
+      eventType === "press" &&
+      !modifier?.length &&
+      [...key].length === 1 &&
+      lookupKey(key) === undefined
+    ) {
+      await typeText(key);
+      return;
     }
+    injectKeyEvent(getInputBackend(), data, this.heldKeys);
   }
 
-  private subscribeToFrameUpdates() {
-    const manager = ScreenCaptureManager.getInstance();
-    // Subscribe to frames as they arrive
-    this.unsubscribe = manager.subscribe((frame, dimensions) => {
-      // Convert to Base64
-      const base64Image = frame.toString("base64");
-
-      // Your existing client contract likely expects something like:
-      // {
-      //   type: "screen-update",
-      //   image: "...base64 string...",
-      //   dimensions: { width, height }
-      // }
-      this.ws.send(
-        JSON.stringify({
-          type: "screen-update",
-          image: base64Image,
-          dimensions,
-        })
-      );
-    });
+  private async handleTextInput(data: TextInputMessage) {
+    await typeText(data.text);
   }
 
-  private getScaledDimensions() {
-    const { width } = ScreenCaptureManager.getInstance()["quality"];
-    const { width: realWidth, height: realHeight } = this.screenSize;
-    const height = Math.floor(width * (realHeight / realWidth));
-    return { width, height };
+  /**
+   * Put text from the client on the desktop clipboard, or save an image and
+   * copy its path.
+   * @returns where the image was saved
+   */
+  private async pushClipboard(message: ClipboardPushMessage) {
+    if (message.format === "text") {
+      await writeClipboard(message.data, this.sendClipboard);
+      return;
+    }
+    const image = Buffer.from(message.data, "base64");
+    if (!isImage(image)) {
+      throw new Error("Clipboard images must be PNG, JPEG or GIF");
+    }
+    const { fileName, filePath } = await saveFile(image);
+    await writeClipboard(filePath, this.sendClipboard);
+    return { fileName, filePath };
   }
 
-  private async handleMouseEvent(data: any) {
-    try {
-      const { x, y, eventType, screenWidth, screenHeight } = data;
-
-      // Convert from client space to actual screen coordinates
-      const actualX = Math.floor((x / screenWidth) * this.screenSize.width);
-      const actualY = Math.floor((y / screenHeight) * this.screenSize.height);
-
-      robot.moveMouse(actualX, actualY);
-
-      switch (eventType) {
-        case "down":
-          robot.mouseToggle("down", "left");
-          break;
-        case "up":
-          robot.mouseToggle("up", "left");
-          break;
-        case "move":
-          // Already moved above
-          break;
-      }
-    } catch (error) {
-      console.error("Error handling mouse event:", error);
+  // Bound, so that it identifies this client among the clipboard watchers
+  private sendClipboard = (text: string) => {
+    this.send({ type: "clipboard", text });
+  };
+
+  private syncClipboard(enabled: boolean) {
+    if (!enabled) {
+      this.stopClipboardSync();
+    } else if (!this.unwatchClipboard) {
+      this.unwatchClipboard = watchClipboard(this.sendClipboard);
     }
   }
 
-  private async handleKeyboardEvent(data: any) {
-    try {
-      const { key, modifier } = data;
-      if (modifier) {
-        robot.keyTap(key, modifier);
-      } else {
-        robot.keyTap(key);
-      }
-    } catch (error) {
-      console.error("Error handling keyboard event:", error);
+  private stopClipboardSync() {
+    if (this.unwatchClipboard) {
+      this.unwatchClipboard();
+      this.unwatchClipboard = null;
     }
   }
 
   private isSupportedCommand(command: string): boolean {
     return (
-      Object.keys(Commands)
+      Object.keys(BuiltInCommands)
         .map((e) => e.toLowerCase())
         .includes(command.toLowerCase()) ||
-      [
-        "type ",
-        "keytap ",
-        "go to line",
-        "open file",
-        "search",
-        "replace",
-        "@cline",
-      ].some((prefix) => command.toLowerCase().startsWith(prefix))
+      isCustomCommand(command) ||
+      findMacro(command) !== undefined ||
+      command.toLowerCase().startsWith("@cline") ||
+      matchCommand(command).match !== undefined
     );
   }
 
   public dispose() {
+    if (this.unsubscribeFromStore) {
+      this.unsubscribeFromStore();
+      this.unsubscribeFromStore = null;
+    }
     // Unsubscribe from frame updates
-    if (this.unsubscribe) {
-      this.unsubscribe();
-      this.unsubscribe = null;
+    this.unsubscribeFromFrameUpdates();
+    this.stopClipboardSync();
+    // Don't leave modifiers stuck down when the phone disconnects mid-shortcut
+    if (this.heldKeys.size > 0) {
+      this.heldKeys.releaseAll(getInputBackend());
     }
   }
 }
 
-// Entry point for new WebSocket connections
-export function handleWebSocketConnection(ws: WebSocket) {
-  console.log("New WebSocket connection");
+function sendMessage(ws: WebSocket, message: ServerMessage) {
+  ws.send(JSON.stringify(message));
+}
+
+// Paired device behind each open socket, used to drop connections on revocation
+const connectionDevices = new Map<WebSocket, string>();
+
+// Entry point for new, already authenticated WebSocket connections
+export function handleWebSocketConnection(
+  ws: WebSocket,
+  auth: DeviceAuthResult
+) {
+  console.log(`New WebSocket connection from "${auth.device.name}"`);
   addWebSocketConnection(ws);
+  connectionDevices.set(ws, auth.device.id);
+
+  // Hand the long-lived token to a freshly paired device, exactly once
+  if (auth.token) {
+    sendMessage(ws, {
+      type: "paired",
+      deviceId: auth.device.id,
+      token: auth.token,
+    });
+  }
 
   // Create a connection instance for this socket
-  const vncConnection = new VSCodeVNCConnection(ws);
+  const vncConnection = new VSCodeVNCConnection(ws, auth.device.id);
 
   ws.on("close", () => {
     vncConnection.dispose();
     removeWebSocketConnection(ws);
+    connectionDevices.delete(ws);
   });
 }
+
+// Screen streamed to each connection that views it, the most recent last
+const screenViewers = new Map<VSCodeVNCConnection, ScreenCaptureManager>();
+
+interface RecordingFeed {
+  callback: Parameters<ScreenSource>[0];
+  quality: VNCQualitySettings;
+  // Screen currently recorded, which follows the most recent viewer
+  manager: ScreenCaptureManager | null;
+  subscription: FrameSubscription | null;
+}
+
+let recordingFeed: RecordingFeed | null = null;
+
+function updateRecordingFeed() {
+  if (!recordingFeed) return;
+  const manager = [...screenViewers.values()].at(-1) ?? null;
+  if (manager === recordingFeed.manager) return;
+  const feed = recordingFeed;
+  feed.subscription?.unsubscribe();
+  feed.manager = manager;
+  feed.subscription =
+    manager?.subscribe(
+      (update) => {
+        if (update.keyframe) {
+          feed.callback(update.image, update.dimensions, update.capturedAt);
+        }
+      },
+      { quality: feed.quality }
+    ) ?? null;
+}
+
+/**
+ * Subscribe to full frames of the display or region the most recently
+ * connected client is viewing, e.g. to record them. Nothing is captured for
+ * it while no client views the screen.
+ */
+export const subscribeToScreen: ScreenSource = (callback, quality) => {
+  const feed: RecordingFeed = {
+    callback,
+    quality,
+    manager: null,
+    subscription: null,
+  };
+  recordingFeed = feed;
+  updateRecordingFeed();
+  return () => {
+    feed.subscription?.unsubscribe();
+    if (recordingFeed === feed) {
+      recordingFeed = null;
+    }
+  };
+};
+
+/**
+ * Close every open connection belonging to a device.
+ * @param deviceId
+ */
+export function disconnectDevice(deviceId: string) {
+  for (const [ws, id] of connectionDevices) {
+    if (id === deviceId) {
+      ws.close(4403, "Device revoked");
+    }
+  }
+}
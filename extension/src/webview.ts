@@ -2,6 +2,16 @@ import * as vscode from "vscode";
 import { getApiKey, saveApiKey } from "./ai/utils";
 import { setWebviewPanel } from "./state/actions";
 import { handleChat } from "./ai/api";
+import { store, AppState } from "./state/store";
+import {
+  createPairingCode,
+  getActivePairingCode,
+  setDeviceScopes,
+} from "./security/pairing";
+import { ScopePresets, Scopes } from "./security/scopes";
+import { exportAuditLog, queryAuditLog } from "./audit/log";
+import { buildConnectionUri, renderQrCode } from "./connection";
+import { revokePairedDevice } from "./server";
 
 function getWebviewContent(): string {
   return `<!DOCTYPE html>
@@ -101,6 +111,67 @@ function getWebviewContent(): string {
             font-weight: bold;
             color: #9cdcfe;
         }
+        .fingerprint {
+            font-family: monospace;
+            font-size: 0.8em;
+            word-break: break-all;
+            text-align: right;
+            margin-left: 20px;
+        }
+        .qr-code svg {
+            width: 220px;
+            height: 220px;
+            border-radius: 4px;
+        }
+        .pairing-code {
+            font-size: 2em;
+            font-family: monospace;
+            letter-spacing: 0.2em;
+            color: #9cdcfe;
+        }
+        .device {
+            padding: 5px 0;
+            border-bottom: 1px solid #3c3c3c;
+        }
+        .device-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        .scopes {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            align-items: center;
+            margin-top: 5px;
+            font-size: 0.9em;
+        }
+        .audit-filters {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-bottom: 10px;
+        }
+        .audit-filters select, .audit-filters input {
+            padding: 8px;
+            background-color: #3c3c3c;
+            color: #d4d4d4;
+            border: 1px solid #565656;
+            border-radius: 4px;
+        }
+        .audit-entries {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.85em;
+        }
+        .audit-entries td {
+            padding: 4px;
+            border-bottom: 1px solid #3c3c3c;
+            word-break: break-all;
+        }
+        .scopes button {
+            padding: 4px 8px;
+        }
     </style>
   </head>
   <body>
@@ -115,10 +186,44 @@ function getWebviewContent(): string {
             </div>
             <div class="status-item">
                 <span>Port:</span>
-                <span class="status-value">11040</span>
+                <span id="port" class="status-value"></span>
+            </div>
+            <div class="status-item">
+                <span>Connection:</span>
+                <span id="connectionScheme" class="status-value"></span>
+            </div>
+            <div class="status-item" id="fingerprintItem" style="display: none;">
+                <span>Certificate Fingerprint:</span>
+                <span id="tlsFingerprint" class="status-value fingerprint"></span>
             </div>
         </div>
         
+        <div>
+            <h2>Pair a Device</h2>
+            <p>Scan this code with the AirCodum app, or enter the one-time code below:</p>
+            <p id="certificateRenewed" class="error" style="display: none;"></p>
+            <div id="qrCode" class="qr-code"></div>
+            <div id="pairingCode" class="pairing-code"></div>
+            <p id="pairingCodeExpiry"></p>
+            <button onclick="newPairingCode()">New Code</button>
+            <h2>Paired Devices</h2>
+            <div id="pairedDevices"></div>
+        </div>
+
+        <div>
+            <h2>Audit Log</h2>
+            <div class="audit-filters">
+                <select id="auditDevice">
+                    <option value="">All devices</option>
+                </select>
+                <input type="datetime-local" id="auditFrom">
+                <input type="datetime-local" id="auditTo">
+                <button onclick="queryAuditLog()">Search</button>
+                <button onclick="exportAuditLog()">Export JSONL</button>
+            </div>
+            <table id="auditEntries" class="audit-entries"></table>
+        </div>
+
         <div>
             <h2>OpenAI API Key</h2>
             <input type="password" id="apiKeyInput" placeholder="Enter your OpenAI API key">
@@ -182,6 +287,33 @@ function getWebviewContent(): string {
             });
         }
   
+        function newPairingCode() {
+            vscode.postMessage({ command: 'newPairingCode' });
+        }
+
+        function revokeDevice(deviceId) {
+            vscode.postMessage({ command: 'revokeDevice', deviceId: deviceId });
+        }
+
+        function setDeviceScopes(deviceId, scopes) {
+            vscode.postMessage({ command: 'setDeviceScopes', deviceId: deviceId, scopes: scopes });
+        }
+
+        function queryAuditLog() {
+            const from = document.getElementById('auditFrom').value;
+            const to = document.getElementById('auditTo').value;
+            vscode.postMessage({
+                command: 'queryAuditLog',
+                deviceId: document.getElementById('auditDevice').value || undefined,
+                from: from ? new Date(from).getTime() : undefined,
+                to: to ? new Date(to).getTime() : undefined
+            });
+        }
+
+        function exportAuditLog() {
+            vscode.postMessage({ command: 'exportAuditLog' });
+        }
+
         function chat() {
             const chatInput = document.getElementById('chatInput');
             const prompt = chatInput.value;
@@ -218,12 +350,138 @@ function getWebviewContent(): string {
                     break;
                 case 'ipAddress':
                     document.getElementById('ipAddress').textContent = message.ipAddress;
+                    document.getElementById('port').textContent = message.port;
+                    break;
+                case 'tlsFingerprint':
+                    handleTlsFingerprintMessage(message);
+                    break;
+                case 'pairingCode':
+                    handlePairingCodeMessage(message);
+                    break;
+                case 'connectionQrCode':
+                    document.getElementById('qrCode').innerHTML = message.svg;
+                    document.getElementById('qrCode').title = message.uri;
+                    break;
+                case 'pairedDevices':
+                    handlePairedDevicesMessage(message);
+                    updateAuditDevices(message.devices);
+                    break;
+                case 'auditLog':
+                    handleAuditLogMessage(message);
                     break;
                 case 'error':
                     showError(message.message);
                     break;
             }
         });
+
+        function handleTlsFingerprintMessage(message) {
+            document.getElementById('connectionScheme').textContent = message.fingerprint
+                ? 'wss:// (encrypted)'
+                : 'ws:// (unencrypted)';
+            document.getElementById('tlsFingerprint').textContent = message.fingerprint || '';
+            document.getElementById('fingerprintItem').style.display = message.fingerprint ? 'flex' : 'none';
+            // Devices paired before a renewal pinned the old fingerprint and can no longer connect
+            const renewed = document.getElementById('certificateRenewed');
+            renewed.textContent = message.fingerprint && message.renewedAt
+                ? 'The certificate was renewed on ' + new Date(message.renewedAt).toLocaleString() +
+                  '. Devices paired before then must scan this code again to trust its new fingerprint: ' +
+                  message.fingerprint
+                : '';
+            renewed.style.display = renewed.textContent ? 'block' : 'none';
+        }
+
+        function handlePairingCodeMessage(message) {
+            document.getElementById('pairingCode').textContent = message.code || '------';
+            document.getElementById('pairingCodeExpiry').textContent = message.expiresAt
+                ? 'Valid until ' + new Date(message.expiresAt).toLocaleTimeString()
+                : 'Code used. Generate a new one to pair another device.';
+        }
+
+        function updateAuditDevices(devices) {
+            const select = document.getElementById('auditDevice');
+            const selected = select.value;
+            select.innerHTML = '<option value="">All devices</option>';
+            devices.forEach(device => {
+                const option = document.createElement('option');
+                option.value = device.id;
+                option.textContent = device.name;
+                select.appendChild(option);
+            });
+            select.value = selected;
+        }
+
+        function handleAuditLogMessage(message) {
+            const table = document.getElementById('auditEntries');
+            table.innerHTML = '';
+            if (message.entries.length === 0) {
+                table.textContent = 'No matching entries.';
+                return;
+            }
+            message.entries.slice().reverse().forEach(entry => {
+                const row = table.insertRow();
+                [
+                    new Date(entry.timestamp).toLocaleString(),
+                    entry.deviceName,
+                    entry.type + (entry.command ? ': ' + entry.command : ''),
+                    entry.args ? JSON.stringify(entry.args) : '',
+                    entry.outcome + (entry.error ? ' (' + entry.error + ')' : '')
+                ].forEach(text => {
+                    row.insertCell().textContent = text;
+                });
+            });
+        }
+
+        function handlePairedDevicesMessage(message) {
+            const container = document.getElementById('pairedDevices');
+            container.innerHTML = '';
+            if (message.devices.length === 0) {
+                container.textContent = 'No devices paired yet.';
+                return;
+            }
+            message.devices.forEach(device => {
+                const row = document.createElement('div');
+                row.className = 'device';
+                const header = document.createElement('div');
+                header.className = 'device-header';
+                const label = document.createElement('span');
+                label.textContent = device.name + (device.lastSeenAt
+                    ? ' (last seen ' + new Date(device.lastSeenAt).toLocaleString() + ')'
+                    : '');
+                const button = document.createElement('button');
+                button.textContent = 'Revoke';
+                button.onclick = () => revokeDevice(device.id);
+                header.appendChild(label);
+                header.appendChild(button);
+                row.appendChild(header);
+
+                const scopes = document.createElement('div');
+                scopes.className = 'scopes';
+                message.scopes.forEach(scope => {
+                    const scopeLabel = document.createElement('label');
+                    const checkbox = document.createElement('input');
+                    checkbox.type = 'checkbox';
+                    checkbox.checked = device.scopes.includes(scope);
+                    checkbox.onchange = () => setDeviceScopes(
+                        device.id,
+                        checkbox.checked
+                            ? device.scopes.concat(scope)
+                            : device.scopes.filter(s => s !== scope)
+                    );
+                    scopeLabel.appendChild(checkbox);
+                    scopeLabel.appendChild(document.createTextNode(scope));
+                    scopes.appendChild(scopeLabel);
+                });
+                Object.entries(message.presets).forEach(([name, presetScopes]) => {
+                    const presetButton = document.createElement('button');
+                    presetButton.textContent = name;
+                    presetButton.onclick = () => setDeviceScopes(device.id, presetScopes);
+                    scopes.appendChild(presetButton);
+                });
+                row.appendChild(scopes);
+                container.appendChild(row);
+            });
+        }
   
         function handleFileMessage(message) {
             if (message.fileType === 'image') {
@@ -277,11 +535,85 @@ export function createWebviewPanel(
   const apiKey = getApiKey();
 
   // Send the IP address to the webview
-  panel.webview.postMessage({ type: "ipAddress", ipAddress: address });
+  postAddress(panel, address, store.getState().server.port);
+
+  // Make sure a pairing code is on display, and keep the status and pairing sections in sync
+  getActivePairingCode();
+  let { pairing: lastPairing, server: lastServer } = store.getState();
+  postTlsFingerprint(panel, lastServer);
+  postPairingState(panel, lastPairing);
+
+  // Rotate the pairing code while the panel is open, so the QR code never shows a stale one
+  let codeExpiryTimer: NodeJS.Timeout | null = null;
+  const scheduleCodeRotation = (code: AppState["pairing"]["code"]) => {
+    if (codeExpiryTimer) clearTimeout(codeExpiryTimer);
+    codeExpiryTimer = code
+      ? setTimeout(createPairingCode, Math.max(0, code.expiresAt - Date.now()))
+      : null;
+  };
+  scheduleCodeRotation(lastPairing.code);
+
+  // Renders are async; only the latest one is posted
+  let qrCodeRender = 0;
+  const refreshQrCode = async (state: AppState) => {
+    const render = ++qrCodeRender;
+    try {
+      const uri = buildConnectionUri({
+        addresses:
+          state.server.addresses.length > 0
+            ? state.server.addresses
+            : [state.server.address ?? address],
+        port: state.server.port,
+        tlsFingerprint: state.server.tlsFingerprint,
+        pairingCode: state.pairing.code?.code ?? null,
+      });
+      const svg = await renderQrCode(uri);
+      if (render === qrCodeRender) {
+        panel.webview.postMessage({ type: "connectionQrCode", svg, uri });
+      }
+    } catch (error) {
+      console.error("Error rendering connection QR code:", error);
+    }
+  };
+  refreshQrCode(store.getState());
+
+  const unsubscribe = store.subscribe((state) => {
+    // The server restarts or changes address when settings or the network change
+    if (
+      state.server.addresses !== lastServer.addresses ||
+      state.server.port !== lastServer.port ||
+      state.server.tlsFingerprint !== lastServer.tlsFingerprint ||
+      state.pairing.code !== lastPairing.code
+    ) {
+      refreshQrCode(state);
+    }
+    if (state.pairing.code !== lastPairing.code) {
+      scheduleCodeRotation(state.pairing.code);
+    }
+    // The server restarts when its settings change
+    if (
+      state.server.address !== lastServer.address ||
+      state.server.port !== lastServer.port
+    ) {
+      postAddress(panel, state.server.address ?? address, state.server.port);
+    }
+    if (
+      state.server.tlsFingerprint !== lastServer.tlsFingerprint ||
+      state.server.tlsRenewedAt !== lastServer.tlsRenewedAt
+    ) {
+      postTlsFingerprint(panel, state.server);
+    }
+    if (state.pairing !== lastPairing) {
+      postPairingState(panel, state.pairing);
+    }
+    ({ pairing: lastPairing, server: lastServer } = state);
+  });
 
   // Add this event listener
   panel.onDidDispose(
     () => {
+      unsubscribe();
+      scheduleCodeRotation(null);
       setWebviewPanel(null);
     },
     null,
@@ -298,7 +630,11 @@ export function createWebviewPanel(
           panel?.webview.postMessage({ type: "apiKey", key: apiKey || "" });
           break;
         case "ipAddress":
-          panel?.webview.postMessage({ type: "ipAddress", ipAddress: address });
+          postAddress(
+            panel,
+            store.getState().server.address ?? address,
+            store.getState().server.port
+          );
           break;
         case "saveApiKey":
           saveApiKey(message.key);
@@ -309,6 +645,40 @@ export function createWebviewPanel(
         case "showInfo":
           vscode.window.showInformationMessage(message.message);
           break;
+        case "newPairingCode":
+          createPairingCode();
+          break;
+        case "revokeDevice":
+          try {
+            await revokePairedDevice(message.deviceId);
+          } catch (error: any) {
+            vscode.window.showErrorMessage(
+              `Failed to revoke device: ${error.message}`
+            );
+          }
+          break;
+        case "setDeviceScopes":
+          try {
+            await setDeviceScopes(message.deviceId, message.scopes);
+          } catch (error: any) {
+            vscode.window.showErrorMessage(
+              `Failed to update device permissions: ${error.message}`
+            );
+          }
+          break;
+        case "queryAuditLog":
+          panel.webview.postMessage({
+            type: "auditLog",
+            entries: await queryAuditLog({
+              deviceId: message.deviceId,
+              from: message.from,
+              to: message.to,
+            }),
+          });
+          break;
+        case "exportAuditLog":
+          await exportAuditLogToFile();
+          break;
       }
     },
     undefined,
@@ -318,6 +688,61 @@ export function createWebviewPanel(
   setWebviewPanel(panel);
 }
 
+async function exportAuditLogToFile() {
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file("aircodum-audit.jsonl"),
+    filters: { "JSON Lines": ["jsonl"] },
+  });
+  if (!uri) return;
+  await exportAuditLog(uri.fsPath);
+  vscode.window.showInformationMessage(`Audit log exported to ${uri.fsPath}`);
+}
+
+function postAddress(
+  panel: vscode.WebviewPanel,
+  ipAddress: string,
+  port: number
+) {
+  panel.webview.postMessage({ type: "ipAddress", ipAddress, port });
+}
+
+function postTlsFingerprint(
+  panel: vscode.WebviewPanel,
+  server: AppState["server"]
+) {
+  panel.webview.postMessage({
+    type: "tlsFingerprint",
+    fingerprint: server.tlsFingerprint,
+    renewedAt: server.tlsRenewedAt,
+  });
+}
+
+function postPairingState(
+  panel: vscode.WebviewPanel,
+  pairing: AppState["pairing"]
+) {
+  panel.webview.postMessage({
+    type: "pairingCode",
+    code: pairing.code?.code ?? null,
+    expiresAt: pairing.code?.expiresAt ?? null,
+  });
+  // Never expose token hashes to the webview
+  panel.webview.postMessage({
+    type: "pairedDevices",
+    devices: pairing.devices.map(
+      ({ id, name, pairedAt, lastSeenAt, scopes }) => ({
+        id,
+        name,
+        pairedAt,
+        lastSeenAt,
+        scopes,
+      })
+    ),
+    scopes: Scopes,
+    presets: ScopePresets,
+  });
+}
+
 function addToCurrentFile(text: string) {
   if (typeof text !== "string" || text.trim() === "") {
     vscode.window.showErrorMessage("Invalid text input.");
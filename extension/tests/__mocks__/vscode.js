@@ -2,12 +2,19 @@
 const vscode = {
   commands: {
     registerCommand: jest.fn(),
-    executeCommand: jest.fn()
+    executeCommand: jest.fn(),
+    getCommands: jest.fn(() => Promise.resolve([]))
+  },
+  extensions: {
+    all: []
   },
   window: {
     showInformationMessage: jest.fn(),
     showErrorMessage: jest.fn(),
     showWarningMessage: jest.fn(),
+    state: {
+      focused: false
+    },
     activeTextEditor: {
       selection: undefined,
       revealRange: jest.fn(),
@@ -16,7 +23,14 @@ const vscode = {
         lineCount: 100
       }
     },
-    showTextDocument: jest.fn()
+    showTextDocument: jest.fn(),
+    showQuickPick: jest.fn(),
+    showSaveDialog: jest.fn(),
+    createOutputChannel: jest.fn(() => ({
+      appendLine: jest.fn(),
+      show: jest.fn(),
+      dispose: jest.fn()
+    }))
   },
   workspace: {
     workspaceFolders: [{
@@ -26,7 +40,44 @@ const vscode = {
       name: 'test-workspace',
       index: 0
     }],
-    openTextDocument: jest.fn()
+    openTextDocument: jest.fn(),
+    getConfiguration: jest.fn(() => ({
+      get: jest.fn((key, defaultValue) => defaultValue),
+      update: jest.fn()
+    })),
+    isTrusted: true,
+    createFileSystemWatcher: jest.fn(() => ({
+      onDidCreate: jest.fn(() => ({ dispose: jest.fn() })),
+      onDidChange: jest.fn(() => ({ dispose: jest.fn() })),
+      onDidDelete: jest.fn(() => ({ dispose: jest.fn() })),
+      dispose: jest.fn()
+    })),
+    onDidChangeConfiguration: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidChangeWorkspaceFolders: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidGrantWorkspaceTrust: jest.fn(() => ({ dispose: jest.fn() }))
+  },
+  tasks: {
+    taskExecutions: []
+  },
+  languages: {
+    getDiagnostics: jest.fn(() => [])
+  },
+  env: {
+    clipboard: {
+      readText: jest.fn(() => Promise.resolve('')),
+      writeText: jest.fn(() => Promise.resolve())
+    }
+  },
+  DiagnosticSeverity: {
+    Error: 0,
+    Warning: 1,
+    Information: 2,
+    Hint: 3
+  },
+  ConfigurationTarget: {
+    Global: 1,
+    Workspace: 2,
+    WorkspaceFolder: 3
   },
   WebviewPanel: jest.fn(),
   ViewColumn: {
@@ -0,0 +1,116 @@
+/**
+ * Audit Log Tests
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Audit Log', () => {
+  let auditLog: any;
+  let storagePath: string;
+
+  const entry = (overrides: Record<string, unknown> = {}) => ({
+    timestamp: 1000,
+    deviceId: 'phone',
+    deviceName: 'Phone',
+    type: 'command',
+    command: 'Select All',
+    outcome: 'ok',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.resetModules();
+    auditLog = require('../../src/audit/log');
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aircodum-audit-'));
+    auditLog.initAuditLog({
+      globalStorageUri: { fsPath: storagePath },
+      subscriptions: []
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should append entries to a JSONL file', async () => {
+    auditLog.recordAudit(entry());
+    auditLog.recordAudit(entry({ timestamp: 2000 }));
+
+    const entries = await auditLog.queryAuditLog({});
+    const lines = fs
+      .readFileSync(path.join(storagePath, 'audit', 'audit.jsonl'), 'utf-8')
+      .trim()
+      .split('\n');
+
+    expect(entries).toHaveLength(2);
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).timestamp).toBe(2000);
+  });
+
+  it('should filter entries by device and time range', async () => {
+    auditLog.recordAudit(entry({ timestamp: 1000 }));
+    auditLog.recordAudit(entry({ timestamp: 2000, deviceId: 'tablet' }));
+    auditLog.recordAudit(entry({ timestamp: 3000 }));
+
+    expect(await auditLog.queryAuditLog({ deviceId: 'tablet' })).toHaveLength(1);
+    expect(
+      (await auditLog.queryAuditLog({ from: 1500, to: 3000 })).map((e: any) => e.timestamp)
+    ).toEqual([2000, 3000]);
+  });
+
+  it('should rotate the file once it grows too large', async () => {
+    const bigArgs = { text: 'x'.repeat(400 * 1024) };
+    for (let i = 0; i < 4; i++) {
+      auditLog.recordAudit(entry({ timestamp: i, args: bigArgs }));
+    }
+
+    const entries = await auditLog.queryAuditLog({});
+    const files = fs.readdirSync(path.join(storagePath, 'audit'));
+
+    expect(entries.map((e: any) => e.timestamp)).toEqual([0, 1, 2, 3]);
+    expect(files.some((file) => /^audit-\d+\.jsonl$/.test(file))).toBe(true);
+  });
+
+  it('should export every entry to a single file', async () => {
+    auditLog.recordAudit(entry());
+    const target = path.join(storagePath, 'export.jsonl');
+
+    await auditLog.exportAuditLog(target);
+
+    expect(JSON.parse(fs.readFileSync(target, 'utf-8').trim())).toEqual(entry());
+  });
+
+  describe('redaction', () => {
+    it('should redact typed text when requested', () => {
+      expect(auditLog.describeCommand('type secret', true)).toEqual({
+        command: 'type',
+        args: { text: '[redacted]' }
+      });
+      expect(auditLog.describeCommand('type secret', false)).toEqual({
+        command: 'type',
+        args: { text: 'secret' }
+      });
+    });
+
+    it('should keep non-typing arguments', () => {
+      expect(auditLog.describeCommand('go to line 42', true)).toEqual({
+        command: 'go to line',
+        args: { line: 42 }
+      });
+      expect(auditLog.describeCommand('replace foo with bar', true)).toEqual({
+        command: 'replace',
+        args: { query: '[redacted]', replacement: '[redacted]' }
+      });
+      expect(auditLog.describeCommand('Select All', true)).toEqual({
+        command: 'Select All'
+      });
+    });
+
+    it('should only redact printable keys', () => {
+      expect(auditLog.redactKey('a', true)).toBe('[redacted]');
+      expect(auditLog.redactKey('enter', true)).toBe('enter');
+      expect(auditLog.redactKey('a', false)).toBe('a');
+    });
+  });
+});
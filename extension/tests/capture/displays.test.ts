@@ -0,0 +1,108 @@
+/**
+ * Display Selection Tests
+ */
+
+describe('Displays', () => {
+  let displays: any;
+  const primarySize = { width: 1440, height: 900 };
+
+  beforeEach(() => {
+    jest.resetModules();
+    displays = require('../../src/capture/displays');
+  });
+
+  it('should read Linux offsets and the primary flag', () => {
+    const result = displays.normalizeDisplays([
+      { id: 'DP-1', name: 'DP-1', width: 1920, height: 1080, offsetX: 0, offsetY: 0, primary: false },
+      { id: 'HDMI-1', name: 'HDMI-1', width: 1280, height: 1024, offsetX: 1920, offsetY: 0, primary: true }
+    ], primarySize);
+
+    expect(result).toEqual([
+      { id: 'DP-1', name: 'DP-1', primary: false, bounds: { x: 0, y: 0, width: 1920, height: 1080 } },
+      { id: 'HDMI-1', name: 'HDMI-1', primary: true, bounds: { x: 1920, y: 0, width: 1280, height: 1024 } }
+    ]);
+  });
+
+  it('should treat the Windows display at the origin as primary', () => {
+    const result = displays.normalizeDisplays([
+      { id: '\\\\.\\DISPLAY2', name: 'Left', left: -1920, top: 0, width: 1920, height: 1080 },
+      { id: '\\\\.\\DISPLAY1', name: 'Main', left: 0, top: 0, width: 2560, height: 1440 }
+    ], primarySize);
+
+    expect(result.map((d: any) => d.primary)).toEqual([false, true]);
+    expect(result[0].bounds).toEqual({ x: -1920, y: 0, width: 1920, height: 1080 });
+  });
+
+  it('should only place the primary display when macOS reports no geometry', () => {
+    const result = displays.normalizeDisplays([
+      { id: 1, name: 'Built-in', primary: true },
+      { id: 2, name: 'External', primary: false }
+    ], primarySize);
+
+    expect(result[0]).toEqual({ id: '1', name: 'Built-in', primary: true, bounds: { x: 0, y: 0, ...primarySize } });
+    expect(result[1].bounds).toBeNull();
+  });
+
+  it('should span every display in the virtual desktop', () => {
+    const list = displays.normalizeDisplays([
+      { id: 'a', left: -1920, top: 200, width: 1920, height: 1080 },
+      { id: 'b', left: 0, top: 0, width: 2560, height: 1440 }
+    ], primarySize);
+
+    expect(displays.getVirtualDesktopBounds(list)).toEqual({ x: -1920, y: 0, width: 4480, height: 1440 });
+    expect(displays.getSelectionBounds('all', list)).toEqual({ x: -1920, y: 0, width: 4480, height: 1440 });
+    expect(displays.getSelectionBounds('primary', list)).toEqual({ x: 0, y: 0, width: 2560, height: 1440 });
+    expect(displays.getSelectionBounds('a', list)).toEqual({ x: -1920, y: 200, width: 1920, height: 1080 });
+  });
+
+  it('should not place the virtual desktop when a display has no geometry', () => {
+    const list = displays.normalizeDisplays([
+      { id: 1, primary: true },
+      { id: 2, primary: false }
+    ], primarySize);
+
+    expect(displays.getVirtualDesktopBounds(list)).toBeNull();
+  });
+
+  it('should map client coordinates into the selected display', () => {
+    const bounds = { x: 1920, y: 0, width: 1280, height: 1024 };
+
+    expect(displays.mapToScreen(bounds, 0, 0, 640, 512)).toEqual({ x: 1920, y: 0 });
+    expect(displays.mapToScreen(bounds, 320, 256, 640, 512)).toEqual({ x: 2560, y: 512 });
+  });
+
+  it('should accept only known selections', () => {
+    const list = displays.normalizeDisplays([{ id: 'DP-1', width: 800, height: 600 }], primarySize);
+
+    expect(displays.isValidSelection('primary', list)).toBe(true);
+    expect(displays.isValidSelection('all', list)).toBe(true);
+    expect(displays.isValidSelection('DP-1', list)).toBe(true);
+    expect(displays.isValidSelection('DP-2', list)).toBe(false);
+  });
+
+  it('should refuse the virtual desktop when a display has no geometry', () => {
+    const list = displays.normalizeDisplays([
+      { id: 1, primary: true },
+      { id: 2, primary: false }
+    ], primarySize);
+
+    expect(displays.isValidSelection('all', list)).toBe(false);
+    expect(displays.isValidSelection('2', list)).toBe(true);
+  });
+
+  it('should fall back to the primary display when listing fails', async () => {
+    const { SyntheticCaptureBackend } = require('../../src/capture/synthetic');
+    const backend = new SyntheticCaptureBackend({
+      displays: [{ id: 'DP-1', primary: true, ...primarySize }]
+    });
+    jest.spyOn(backend, 'listDisplays').mockRejectedValueOnce(new Error('xrandr not found'));
+    require('../../src/capture/backend').setCaptureBackend(backend);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const list = await displays.getDisplays();
+
+    expect(list).toEqual([
+      { id: 'primary', name: 'Primary display', primary: true, bounds: { x: 0, y: 0, ...primarySize } }
+    ]);
+  });
+});
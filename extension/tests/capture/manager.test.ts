@@ -0,0 +1,219 @@
+/**
+ * Screen Capture Manager Tests
+ */
+
+describe('Screen Capture Manager', () => {
+  let ScreenCaptureManager: any;
+  let backend: any;
+  let subscriptions: any[];
+
+  // Wait for a frame's decoding and encoding, which do not depend on the clock
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  // Move the capture clock on, a step at a time
+  const advance = async (ms: number, step = 10) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += step) {
+      await jest.advanceTimersByTimeAsync(Math.min(step, ms - elapsed));
+      await settle();
+    }
+  };
+
+  const advanceUntil = async (condition: () => boolean, step = 10, limit = 1000) => {
+    for (let elapsed = 0; !condition(); elapsed += step) {
+      if (elapsed > limit) {
+        throw new Error(`Still waiting after ${limit} ms`);
+      }
+      await advance(step, step);
+    }
+  };
+
+  const subscribe = (options: any = {}) => {
+    const updates: any[] = [];
+    const subscription = ScreenCaptureManager.getInstance().subscribe(
+      (update: any) => updates.push(update),
+      options
+    );
+    subscriptions.push(subscription);
+    return { updates, subscription };
+  };
+
+  const setup = (options: any = {}) => {
+    const { SyntheticCaptureBackend } = require('../../src/capture/synthetic');
+    // Small, so that the frames captured along the fake clock encode quickly
+    backend = new SyntheticCaptureBackend({
+      displays: [{ id: 'synthetic', primary: true, width: 256, height: 144, offsetX: 0, offsetY: 0 }],
+      ...options,
+    });
+    require('../../src/capture/backend').setCaptureBackend(backend);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    jest.resetModules();
+    jest.spyOn(console, 'debug').mockImplementation(() => {});
+    ({ ScreenCaptureManager } = require('../../src/capture/manager'));
+    subscriptions = [];
+    setup();
+  });
+
+  afterEach(() => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should send the current screen as a keyframe on subscribe', async () => {
+    const { updates } = subscribe();
+
+    await advanceUntil(() => updates.length === 1);
+
+    expect(updates[0].keyframe).toBe(true);
+    expect(updates[0].dimensions).toEqual({ width: 256, height: 144 });
+    expect(updates[0].image.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+  });
+
+  it('should stamp frames with when they were captured', async () => {
+    const grabbedAt: number[] = [];
+    const grab = backend.grab.bind(backend);
+    jest.spyOn(backend, 'grab').mockImplementation((options: any) => {
+      grabbedAt.push(Date.now());
+      return grab(options);
+    });
+    const { updates } = subscribe();
+
+    await advanceUntil(() => updates.length === 1);
+
+    expect(updates[0].capturedAt).toBe(grabbedAt[0]);
+    expect(Date.now() - updates[0].capturedAt).toBeGreaterThanOrEqual(100);
+  });
+
+  it('should only send frames when the screen changes', async () => {
+    const { updates } = subscribe();
+    await advanceUntil(() => updates.length === 1);
+    const grabs = backend.grabCount;
+
+    await advance(200);
+    expect(updates).toHaveLength(1);
+    expect(backend.grabCount).toBeGreaterThan(grabs + 3);
+
+    backend.advance();
+    await advanceUntil(() => updates.length === 2);
+  });
+
+  it('should capture only as often as the subscribers ask', async () => {
+    subscribe({ quality: { fps: 5 } });
+
+    await advance(1000);
+
+    expect(backend.grabCount).toBeGreaterThanOrEqual(4);
+    expect(backend.grabCount).toBeLessThanOrEqual(5);
+  });
+
+  it('should not process unchanged frames again for clients waiting for their frame rate', async () => {
+    const fast = subscribe({ quality: { fps: 20 } });
+    const slow = subscribe({ quality: { fps: 1 } });
+    await advanceUntil(() => fast.updates.length === 1 && slow.updates.length === 1);
+    const requestRefresh = jest.spyOn(ScreenCaptureManager.getInstance(), 'requestRefresh');
+
+    backend.advance();
+    await advanceUntil(() => fast.updates.length === 2);
+    expect(slow.updates).toHaveLength(1);
+
+    // The slow client gets the screen once its second is up, though it no longer changes
+    await advanceUntil(() => slow.updates.length === 2, 10, 1500);
+    expect(requestRefresh).not.toHaveBeenCalled();
+    expect(fast.updates).toHaveLength(2);
+  });
+
+  it('should send tile subscribers only the tiles that changed', async () => {
+    // At the lowest settings, so that adapting them cannot change the tier
+    const { updates } = subscribe({ tiles: true, quality: { width: 1024, jpegQuality: 80 } });
+    await advanceUntil(() => updates.length === 1);
+
+    backend.advance();
+    await advanceUntil(() => updates.length === 2);
+
+    expect(updates[1].keyframe).toBe(false);
+    expect(updates[1].tiles.map((tile: any) => [tile.x, tile.y])).toEqual([
+      [0, 0],
+      [64, 0],
+    ]);
+  });
+
+  it('should send one update for the frames captured while coalescing', async () => {
+    setup({ animate: true });
+    const { updates } = subscribe();
+    await advanceUntil(() => backend.grabCount === 1, 1);
+
+    // Up to the end of the coalescing wait, every capture is a new frame
+    await advance(99);
+    expect(backend.grabCount).toBeGreaterThanOrEqual(3);
+    expect(updates).toHaveLength(0);
+
+    await advance(1, 1);
+    expect(updates).toHaveLength(1);
+    await advance(1, 1);
+    expect(updates).toHaveLength(1);
+  });
+
+  it('should skip clients that are behind until they catch up', async () => {
+    const load = { bufferedAmount: 0, unackedFrames: 3, latency: null };
+    const { updates } = subscribe({ getLoad: () => load });
+
+    await advance(200);
+    expect(updates).toHaveLength(0);
+
+    load.unackedFrames = 0;
+    await advanceUntil(() => updates.length === 1);
+    expect(updates[0].keyframe).toBe(true);
+  });
+
+  it('should not touch the screen until it captures', () => {
+    const getScreenSize = jest.spyOn(backend, 'getScreenSize');
+
+    ScreenCaptureManager.getInstance('DP-1');
+
+    expect(getScreenSize).not.toHaveBeenCalled();
+  });
+
+  it('should stop capturing a display once nobody views it', () => {
+    const manager = ScreenCaptureManager.getInstance('DP-1');
+    const subscription = manager.subscribe(() => {});
+    expect(ScreenCaptureManager.getInstance('DP-1')).toBe(manager);
+
+    subscription.unsubscribe();
+
+    expect(ScreenCaptureManager.getInstance('DP-1')).not.toBe(manager);
+  });
+
+  it('should lower the quality for clients that acknowledge frames late', async () => {
+    const { updates, subscription } = subscribe({
+      getLoad: () => ({ bufferedAmount: 0, unackedFrames: 0, latency: 1000 }),
+    });
+    await advanceUntil(() => updates.length === 1);
+    expect(subscription.updateQuality({})).toEqual({ width: 1440, jpegQuality: 85, fps: 45 });
+
+    // Past the next quality check
+    jest.setSystemTime(Date.now() + 3000);
+    backend.advance();
+    await advanceUntil(() => updates.length === 2);
+
+    expect(subscription.updateQuality({})).toEqual({ width: 1312, jpegQuality: 80, fps: 45 });
+  });
+
+  it('should not lower the quality of other clients for a slow one', async () => {
+    const slow = subscribe({
+      getLoad: () => ({ bufferedAmount: 0, unackedFrames: 0, latency: 1000 }),
+    });
+    const fast = subscribe({ quality: { fps: 30 } });
+    await advanceUntil(() => slow.updates.length === 1 && fast.updates.length === 1);
+
+    jest.setSystemTime(Date.now() + 3000);
+    backend.advance();
+    await advanceUntil(() => slow.updates.length === 2 && fast.updates.length === 2);
+
+    // Encoding takes no time on the fake clock, so the fast client is raised
+    expect(slow.subscription.updateQuality({})).toEqual({ width: 1312, jpegQuality: 80, fps: 45 });
+    expect(fast.subscription.updateQuality({})).toEqual({ width: 1504, jpegQuality: 86, fps: 30 });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Capture Region Tests
+ */
+
+describe('Regions', () => {
+  let regions: any;
+
+  beforeEach(() => {
+    regions = require('../../src/capture/regions');
+  });
+
+  it('should accept regions inside the display', () => {
+    expect(regions.isValidRegion({ x: 0, y: 0, width: 1, height: 1 })).toBe(true);
+    expect(regions.isValidRegion({ x: 0.1, y: 0.3, width: 0.9, height: 0.7 })).toBe(true);
+  });
+
+  it('should reject regions outside the display or too small', () => {
+    expect(regions.isValidRegion({ x: 0.5, y: 0, width: 0.6, height: 1 })).toBe(false);
+    expect(regions.isValidRegion({ x: -0.1, y: 0, width: 0.5, height: 0.5 })).toBe(false);
+    expect(regions.isValidRegion({ x: 0, y: 0, width: 0, height: 0.5 })).toBe(false);
+    expect(regions.isValidRegion({ x: 0, y: 0, width: '1', height: 1 })).toBe(false);
+    expect(regions.isValidRegion(null)).toBe(false);
+  });
+
+  it('should map a region into display coordinates', () => {
+    const bounds = { x: 1920, y: 0, width: 2560, height: 1440 };
+
+    expect(regions.applyRegion(bounds, { x: 0.25, y: 0.5, width: 0.5, height: 0.25 })).toEqual({
+      x: 2560,
+      y: 720,
+      width: 1280,
+      height: 360
+    });
+  });
+
+  it('should crop whole pixels within the image', () => {
+    expect(regions.getRegionPixels(2880, 1800, { x: 0.5, y: 0.5, width: 0.5, height: 0.5 })).toEqual({
+      x: 1440,
+      y: 900,
+      width: 1440,
+      height: 900
+    });
+    expect(regions.getRegionPixels(100, 100, { x: 0.999, y: 0, width: 0.01, height: 0.01 })).toEqual({
+      x: 99,
+      y: 0,
+      width: 1,
+      height: 1
+    });
+  });
+
+  it('should key equal regions alike', () => {
+    const region = { x: 0.1, y: 0.2, width: 0.3, height: 0.4 };
+
+    expect(regions.getRegionKey({ ...region })).toBe(regions.getRegionKey(region));
+    expect(regions.getRegionKey({ ...region, x: 0.2 })).not.toBe(regions.getRegionKey(region));
+  });
+});
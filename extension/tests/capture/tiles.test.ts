@@ -0,0 +1,58 @@
+/**
+ * Tile Diffing Tests
+ */
+
+describe('Tiles', () => {
+  let tiles: any;
+
+  // A solid grey RGBA bitmap
+  const bitmap = (width: number, height: number) => ({
+    data: Buffer.alloc(width * height * 4, 128),
+    width,
+    height
+  });
+
+  const setPixel = (image: any, x: number, y: number) => {
+    image.data.writeUInt32BE(0xff0000ff, (y * image.width + x) * 4);
+  };
+
+  beforeEach(() => {
+    tiles = require('../../src/capture/tiles');
+  });
+
+  it('should cover the frame with row-major tiles, clipping at the edges', () => {
+    const rects = tiles.getTileRects(150, 70, 64);
+
+    expect(rects).toHaveLength(6);
+    expect(rects[0]).toEqual({ x: 0, y: 0, width: 64, height: 64 });
+    expect(rects[2]).toEqual({ x: 128, y: 0, width: 22, height: 64 });
+    expect(rects[5]).toEqual({ x: 128, y: 64, width: 22, height: 6 });
+  });
+
+  it('should find no changes between identical frames', () => {
+    expect(tiles.findChangedTiles(bitmap(150, 70), bitmap(150, 70), 64)).toEqual([]);
+  });
+
+  it('should find only the tiles containing changed pixels', () => {
+    const current = bitmap(150, 70);
+    setPixel(current, 70, 10);
+    setPixel(current, 149, 69);
+
+    expect(tiles.findChangedTiles(bitmap(150, 70), current, 64)).toEqual([1, 5]);
+  });
+
+  it('should mark every tile as changed when the size changes', () => {
+    expect(tiles.findChangedTiles(bitmap(64, 64), bitmap(128, 64), 64)).toEqual([0, 1]);
+  });
+
+  it('should crop a tile out of a frame', () => {
+    const image = bitmap(150, 70);
+    setPixel(image, 130, 65);
+
+    const tile = tiles.cropBitmap(image, { x: 128, y: 64, width: 22, height: 6 });
+
+    expect(tile.width).toBe(22);
+    expect(tile.data.length).toBe(22 * 6 * 4);
+    expect(tile.data.readUInt32BE((1 * 22 + 2) * 4)).toBe(0xff0000ff);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Clipboard Sync Tests
+ */
+
+describe('Clipboard Sync', () => {
+  let vscode: any;
+  let clipboard: any;
+  let desktop: string;
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.useFakeTimers();
+    vscode = require('vscode');
+    desktop = 'initial';
+    vscode.env.clipboard.readText.mockImplementation(() => Promise.resolve(desktop));
+    vscode.env.clipboard.writeText.mockImplementation((text: string) => {
+      desktop = text;
+      return Promise.resolve();
+    });
+    clipboard = require('../../src/clipboard/sync');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should notify watchers when the desktop clipboard changes', async () => {
+    const listener = jest.fn();
+    const unwatch = clipboard.watchClipboard(listener);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(listener).not.toHaveBeenCalled();
+
+    desktop = 'copied in VS Code';
+    await jest.advanceTimersByTimeAsync(1000);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(listener.mock.calls).toEqual([['copied in VS Code']]);
+
+    unwatch();
+    desktop = 'copied again';
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell other watchers, but not the sender, about pushed text', async () => {
+    const sender = jest.fn();
+    const other = jest.fn();
+    clipboard.watchClipboard(sender);
+    clipboard.watchClipboard(other);
+
+    await clipboard.writeClipboard('from the phone', sender);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(desktop).toBe('from the phone');
+    expect(sender).not.toHaveBeenCalled();
+    expect(other.mock.calls).toEqual([['from the phone']]);
+  });
+
+  it('should restore borrowed text without telling watchers', async () => {
+    const listener = jest.fn();
+    clipboard.watchClipboard(listener);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await clipboard.borrowClipboard('naïve', async () => {
+      expect(desktop).toBe('naïve');
+      await jest.advanceTimersByTimeAsync(1000);
+    });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(desktop).toBe('initial');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Command Catalog Tests
+ */
+
+describe('Command Catalog', () => {
+  let vscode: any;
+  let catalog: any;
+
+  const key = process.platform === 'darwin' ? 'cmd+shift+g' : 'ctrl+shift+g';
+
+  beforeEach(() => {
+    jest.resetModules();
+    vscode = require('vscode');
+    vscode.commands.executeCommand.mockClear();
+    vscode.commands.getCommands.mockResolvedValue([
+      'workbench.action.terminal.toggleTerminal',
+      'workbench.action.focusStatusBar',
+      'gitlens.showGraph',
+      'prettier.forceFormatDocument',
+    ]);
+    vscode.extensions.all = [
+      {
+        id: 'eamodio.gitlens',
+        packageJSON: {
+          displayName: 'GitLens',
+          contributes: {
+            commands: [
+              { command: 'gitlens.showGraph', title: 'Show Commit Graph', category: 'GitLens' },
+              // Contributed, but not registered while the extension is inactive
+              { command: 'gitlens.showHomeView', title: 'Show Home View' },
+            ],
+            keybindings: [{ command: 'gitlens.showGraph', key: 'ctrl+shift+g', mac: 'cmd+shift+g' }],
+          },
+        },
+      },
+      {
+        id: 'esbenp.prettier-vscode',
+        packageJSON: {
+          displayName: '%displayName%',
+          contributes: {
+            commands: { command: 'prettier.forceFormatDocument', title: '%command.forceFormat%' },
+          },
+        },
+      },
+    ];
+    catalog = require('../../src/commanding/catalog');
+  });
+
+  afterEach(() => {
+    vscode.extensions.all = [];
+  });
+
+  it('should merge the static table, contributions and registered commands', async () => {
+    const commands = await catalog.getCommandCatalog();
+    const byId = (id: string) => commands.find((entry: any) => entry.command === id);
+
+    expect(byId('workbench.action.terminal.toggleTerminal')).toEqual({
+      command: 'workbench.action.terminal.toggleTerminal',
+      title: 'Toggle terminal',
+      category: 'Terminal',
+      source: 'builtin',
+    });
+    expect(byId('gitlens.showGraph')).toEqual({
+      command: 'gitlens.showGraph',
+      title: 'Show Commit Graph',
+      category: 'GitLens',
+      keybinding: key,
+      source: 'extension',
+    });
+    expect(byId('prettier.forceFormatDocument')).toMatchObject({
+      title: 'Force Format Document',
+      category: 'esbenp.prettier-vscode',
+    });
+    expect(byId('workbench.action.focusStatusBar')).toMatchObject({
+      title: 'Focus Status Bar',
+      category: 'View',
+      source: 'vscode',
+    });
+    expect(byId('gitlens.showHomeView')).toBeUndefined();
+    // Only commands this VS Code has are listed from the static table
+    expect(byId('workbench.action.exitZenMode')).toBeUndefined();
+  });
+
+  it('should list custom commands first, without an id', async () => {
+    const [first] = await catalog.getCommandCatalog();
+
+    expect(first).toEqual({ title: 'get screenshot', category: 'AirCodum', source: 'custom' });
+  });
+
+  it('should describe the slots of custom commands', async () => {
+    const commands = await catalog.getCommandCatalog();
+
+    expect(commands.find((entry: any) => entry.title === 'go to line [line]')).toMatchObject({
+      slots: [{ name: 'line', type: 'integer' }],
+    });
+  });
+
+  it('should only run registered commands', async () => {
+    await catalog.runCatalogCommand('gitlens.showGraph');
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('gitlens.showGraph');
+    await expect(catalog.runCatalogCommand('_internal.command')).rejects.toThrow(
+      'Unknown command: _internal.command'
+    );
+    await expect(catalog.runCatalogCommand('extension.manageAirCodumDevices')).rejects.toThrow(
+      'cannot be run from a device'
+    );
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Custom Command Grammar Tests
+ */
+
+describe('Command Grammar', () => {
+  let grammar: any;
+
+  beforeEach(() => {
+    grammar = require('../../src/commanding/grammar');
+  });
+
+  const parse = (text: string) => grammar.parseCustomCommand(text);
+
+  it('should parse typed slots into structured arguments', () => {
+    expect(parse('go to line 42')).toEqual({ name: 'goToLine', title: 'go to line', args: { line: 42 } });
+    expect(parse('Open File src/extension.ts')).toMatchObject({ name: 'openFile', args: { file: 'src/extension.ts' } });
+    expect(parse('go to symbol Server.start')).toMatchObject({ args: { symbol: 'Server.start' } });
+    expect(parse('keytap escape')).toMatchObject({ name: 'keytap', args: { key: 'escape' } });
+    expect(parse('get screenshot')).toMatchObject({ name: 'screenshot', args: {} });
+  });
+
+  it('should prefer the first pattern that fits', () => {
+    expect(parse('type hello and enter')).toMatchObject({ name: 'typeAndEnter', args: { text: 'hello' } });
+    expect(parse('type hello')).toMatchObject({ name: 'type', args: { text: 'hello' } });
+  });
+
+  it('should split on literals and accept quoted slots containing them', () => {
+    expect(parse('replace foo with bar')).toMatchObject({ args: { query: 'foo', replacement: 'bar' } });
+    expect(parse('replace "a with b" with c')).toMatchObject({ args: { query: 'a with b', replacement: 'c' } });
+  });
+
+  it('should report ambiguous splits instead of guessing', () => {
+    expect(() => parse('replace a with b with c')).toThrow(grammar.CommandParseError);
+    expect(() => parse('replace a with b with c')).toThrow('The query could end in more than one place');
+  });
+
+  it('should report arguments of the wrong type', () => {
+    expect(() => parse('go to line ten')).toThrow('Expected a whole number for line, got "ten"');
+    expect(() => parse('go to line')).toThrow('Expected "go to line [line]"');
+    expect(() => parse('type ""')).toThrow('Missing text');
+    expect(() => parse('type')).toThrow('Expected "type [text] and enter" or "type [text]"');
+    expect(() => parse('keytap hyper')).toThrow('Expected a key name');
+    expect(() => parse('go to symbol not a symbol')).toThrow('Expected an identifier');
+    expect(() => parse('replace foo')).toThrow('Expected "replace [query] with [replacement]"');
+  });
+
+  it('should leave other text alone', () => {
+    expect(parse('explain this file')).toBeNull();
+    expect(parse('get screenshot of the editor')).toBeNull();
+    expect(parse('typewriter mode')).toBeNull();
+    expect(grammar.isCustomCommand('go to line ten')).toBe(true);
+    expect(grammar.isCustomCommand('searching for answers')).toBe(false);
+  });
+});
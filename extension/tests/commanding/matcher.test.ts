@@ -0,0 +1,48 @@
+/**
+ * Natural-Language Command Matching Tests
+ */
+
+describe('Command Matcher', () => {
+  let matcher: any;
+
+  beforeEach(() => {
+    matcher = require('../../src/commanding/matcher');
+  });
+
+  it('should normalize filler words, inflections and synonyms', () => {
+    expect(matcher.tokenize('Please open the Terminals')).toEqual(['show', 'terminal']);
+    expect(matcher.tokenize('toggleSearchPreserveCase')).toEqual(['toggle', 'search', 'preserve', 'case']);
+  });
+
+  it('should run a dictated command that names every word of a command', () => {
+    const { match } = matcher.matchCommand('please toggle the search preserve case');
+
+    expect(match.name).toBe('Toggle search preserve case');
+    expect(match.command).toBe('toggleSearchPreserveCase');
+  });
+
+  it('should match synonyms and small slips', () => {
+    expect(matcher.matchCommand('beautify the document').match.name).toBe('Format Document');
+    expect(matcher.rankCommands('termnal toggle')[0].name).toBe('Toggle terminal');
+  });
+
+  it('should offer candidates when no command stands out', () => {
+    const { match, candidates } = matcher.matchCommand('preserve case');
+
+    expect(match).toBeUndefined();
+    expect(candidates.map((candidate: any) => candidate.name)).toEqual(
+      expect.arrayContaining(['Toggle preserve case', 'Toggle search preserve case'])
+    );
+    expect(candidates[0].score).toBeGreaterThanOrEqual(candidates[1].score);
+  });
+
+  it('should list a command several names map to once', () => {
+    const commands = matcher.rankCommands('toggle terminal', 10).map((candidate: any) => candidate.command);
+
+    expect(new Set(commands).size).toBe(commands.length);
+  });
+
+  it('should find nothing in unrelated sentences', () => {
+    expect(matcher.matchCommand('what is the meaning of life')).toEqual({ candidates: [] });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Desktop Automation Command Tests
+ */
+
+describe('RobotJS Command Handlers', () => {
+  let handlers: any;
+  let input: any;
+  let backend: any;
+
+  beforeEach(() => {
+    jest.resetModules();
+    input = require('../../src/input/backend');
+    const { FakeInputBackend } = require('../../src/input/fake');
+    backend = new FakeInputBackend();
+    input.setInputBackend(backend);
+    ({ RobotJSCommandHandlers: handlers } = require('../../src/commanding/robotjs-handlers'));
+  });
+
+  const methods = () => backend.calls.map((call: any) => [call.method, ...call.args]);
+
+  it('should type text and press enter', async () => {
+    await handlers.typeAndEnter('hello');
+
+    expect(methods()).toEqual([
+      ['typeString', 'hello'],
+      ['keyTap', 'enter'],
+    ]);
+  });
+
+  it('should tap single keys', () => {
+    handlers.escape();
+    handlers.up();
+
+    expect(methods()).toEqual([
+      ['keyTap', 'escape'],
+      ['keyTap', 'up'],
+    ]);
+  });
+
+  it('should open the replace panel and fill in both fields', async () => {
+    await handlers.replace('foo', 'bar');
+
+    const modifier = process.platform === 'darwin' ? 'command' : 'control';
+    expect(methods()).toEqual([
+      ['keyTap', 'h', [modifier, 'shift']],
+      ['setKeyboardDelay', 200],
+      ['typeString', 'foo'],
+      ['keyTap', 'tab'],
+      ['typeString', 'bar'],
+      ['keyTap', 'enter'],
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Server Configuration Tests
+ */
+import * as os from 'os';
+import * as vscode from 'vscode';
+
+jest.mock('os', () => ({
+  ...jest.requireActual('os'),
+  networkInterfaces: jest.fn()
+}));
+
+describe('Server Configuration', () => {
+  let config: any;
+  let utils: any;
+
+  const settings = (values: Record<string, unknown>) => {
+    (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+      get: jest.fn((key: string, defaultValue: unknown) =>
+        key in values ? values[key] : defaultValue
+      )
+    });
+  };
+
+  beforeEach(() => {
+    (os.networkInterfaces as jest.Mock).mockReturnValue({
+      lo: [{ address: '127.0.0.1', family: 'IPv4', internal: true } as any],
+      eth0: [
+        { address: 'fe80::1', family: 'IPv6', internal: false } as any,
+        { address: '192.168.1.20', family: 'IPv4', internal: false } as any
+      ],
+      tailscale0: [{ address: '100.64.0.5', family: 'IPv4', internal: false } as any]
+    });
+    config = require('../src/config');
+    utils = require('../src/utils');
+  });
+
+  describe('getNetworkAddresses', () => {
+    it('should list every non-internal address, IPv4 first', () => {
+      expect(utils.getNetworkAddresses()).toEqual([
+        { interfaceName: 'eth0', address: '192.168.1.20', family: 'IPv4' },
+        { interfaceName: 'tailscale0', address: '100.64.0.5', family: 'IPv4' },
+        { interfaceName: 'eth0', address: 'fe80::1', family: 'IPv6' }
+      ]);
+    });
+
+    it('should prefer the requested interface', () => {
+      expect(utils.getIPAddress()).toBe('192.168.1.20');
+      expect(utils.getIPAddress('tailscale0')).toBe('100.64.0.5');
+      expect(utils.getIPAddress('missing0')).toBe('192.168.1.20');
+    });
+  });
+
+  describe('getServerConfig', () => {
+    it('should fall back to the defaults', () => {
+      settings({});
+
+      expect(config.getServerConfig()).toEqual({
+        port: 11040,
+        bindAddress: 'all',
+        networkInterface: '',
+        autoStart: false,
+        useTls: true,
+        discovery: true
+      });
+    });
+  });
+
+  describe('resolveBindAddress', () => {
+    it('should bind to every interface by default', () => {
+      settings({});
+      expect(config.resolveBindAddress(config.getServerConfig())).toBe('0.0.0.0');
+    });
+
+    it('should bind to loopback only', () => {
+      settings({ bindAddress: 'loopback' });
+      expect(config.resolveBindAddress(config.getServerConfig())).toBe('127.0.0.1');
+    });
+
+    it('should bind to the selected interface', () => {
+      settings({ bindAddress: 'interface', networkInterface: 'tailscale0' });
+      const serverConfig = config.getServerConfig();
+
+      expect(config.resolveBindAddress(serverConfig)).toBe('100.64.0.5');
+      expect(config.resolveDisplayAddress(serverConfig)).toBe('100.64.0.5');
+    });
+
+    it('should fail for an interface without an IPv4 address', () => {
+      settings({ bindAddress: 'interface', networkInterface: 'wlan0' });
+      expect(() => config.resolveBindAddress(config.getServerConfig())).toThrow('wlan0');
+    });
+  });
+
+  describe('getReachableAddresses', () => {
+    it('should list every address when binding to all', () => {
+      settings({});
+      expect(config.getReachableAddresses(config.getServerConfig())).toEqual([
+        '192.168.1.20',
+        '100.64.0.5',
+        'fe80::1'
+      ]);
+    });
+
+    it('should only list the bound address otherwise', () => {
+      settings({ bindAddress: 'loopback' });
+      expect(config.getReachableAddresses(config.getServerConfig())).toEqual(['127.0.0.1']);
+    });
+  });
+
+  describe('getSavedRegions', () => {
+    it('should skip invalid regions', () => {
+      settings({
+        'capture.regions': {
+          editor: { x: 0.2, y: 0, width: 0.6, height: 0.8 },
+          broken: { x: 0.9, y: 0, width: 0.5, height: 1 }
+        }
+      });
+      expect(config.getSavedRegions()).toEqual({
+        editor: { x: 0.2, y: 0, width: 0.6, height: 0.8 }
+      });
+    });
+  });
+
+  describe('resolveDisplayAddress', () => {
+    it('should show the preferred interface when binding to all', () => {
+      settings({ networkInterface: 'tailscale0' });
+      expect(config.resolveDisplayAddress(config.getServerConfig())).toBe('100.64.0.5');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Connection QR Code Tests
+ */
+
+describe('Connection URI', () => {
+  let connection: any;
+
+  beforeEach(() => {
+    connection = require('../src/connection');
+  });
+
+  it('should encode every address, the port, fingerprint and pairing code', () => {
+    const uri = connection.buildConnectionUri({
+      addresses: ['192.168.1.20', '100.64.0.5'],
+      port: 11040,
+      tlsFingerprint: 'AB:CD',
+      pairingCode: '123456'
+    });
+    const url = new URL(uri);
+
+    expect(url.protocol).toBe('aircodum:');
+    expect(url.searchParams.getAll('host')).toEqual(['192.168.1.20', '100.64.0.5']);
+    expect(url.searchParams.get('port')).toBe('11040');
+    expect(url.searchParams.get('tls')).toBe('1');
+    expect(url.searchParams.get('fp')).toBe('AB:CD');
+    expect(url.searchParams.get('code')).toBe('123456');
+  });
+
+  it('should bracket IPv6 hosts and leave out link-local ones', () => {
+    const url = new URL(
+      connection.buildConnectionUri({
+        addresses: ['192.168.1.20', 'fd7a:115c:a1e0::1', 'fe80::1c2b:3fff:fe4d:5e6f', 'FE80::1%en0'],
+        port: 11040,
+        tlsFingerprint: null,
+        pairingCode: null
+      })
+    );
+
+    expect(url.searchParams.getAll('host')).toEqual(['192.168.1.20', '[fd7a:115c:a1e0::1]']);
+  });
+
+  it('should leave out the fingerprint and code when there are none', () => {
+    const url = new URL(
+      connection.buildConnectionUri({
+        addresses: ['192.168.1.20'],
+        port: 8080,
+        tlsFingerprint: null,
+        pairingCode: null
+      })
+    );
+
+    expect(url.searchParams.get('tls')).toBe('0');
+    expect(url.searchParams.has('fp')).toBe(false);
+    expect(url.searchParams.has('code')).toBe(false);
+  });
+
+  it('should render a QR code as SVG', async () => {
+    const svg = await connection.renderQrCode('aircodum://connect?port=11040');
+
+    expect(svg).toContain('<svg');
+  });
+});
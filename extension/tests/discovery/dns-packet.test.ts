@@ -0,0 +1,74 @@
+/**
+ * DNS Packet Tests
+ */
+
+describe('DNS Packet', () => {
+  let dns: any;
+
+  beforeEach(() => {
+    dns = require('../../src/discovery/dns-packet');
+  });
+
+  it('should round-trip questions and every record type', () => {
+    const packet = {
+      id: 42,
+      flags: dns.RESPONSE_FLAGS,
+      questions: [
+        { name: ['_aircodum', '_tcp', 'local'], type: dns.RecordTypes.PTR, unicastResponse: true }
+      ],
+      answers: [
+        { type: 'PTR', name: ['_aircodum', '_tcp', 'local'], ttl: 4500, cacheFlush: false, target: ['my.laptop (project)', '_aircodum', '_tcp', 'local'] }
+      ],
+      additionals: [
+        { type: 'SRV', name: ['my.laptop (project)', '_aircodum', '_tcp', 'local'], ttl: 120, cacheFlush: true, priority: 0, weight: 0, port: 11040, target: ['aircodum-laptop', 'local'] },
+        { type: 'TXT', name: ['my.laptop (project)', '_aircodum', '_tcp', 'local'], ttl: 4500, cacheFlush: true, entries: ['proto=1', 'tls=1'] },
+        { type: 'A', name: ['aircodum-laptop', 'local'], ttl: 120, cacheFlush: true, address: '192.168.1.20' }
+      ]
+    };
+
+    expect(dns.decodePacket(dns.encodePacket(packet))).toEqual(packet);
+  });
+
+  it('should follow name compression pointers', () => {
+    // Question for "local" PTR, then an answer whose name points back at offset 12
+    const buffer = Buffer.from([
+      0, 0, 0x84, 0, 0, 1, 0, 1, 0, 0, 0, 0,
+      5, ...Buffer.from('local'), 0, 0, 12, 0, 1,
+      0xc0, 12, 0, 1, 0, 1, 0, 0, 0, 120, 0, 4, 10, 0, 0, 1
+    ]);
+
+    const packet = dns.decodePacket(buffer);
+
+    expect(packet.questions[0].name).toEqual(['local']);
+    expect(packet.answers[0]).toMatchObject({ type: 'A', name: ['local'], address: '10.0.0.1' });
+  });
+
+  it('should reject labels longer than 63 bytes', () => {
+    expect(() =>
+      dns.encodePacket({
+        id: 0,
+        flags: 0,
+        questions: [{ name: ['x'.repeat(64), 'local'], type: 1, unicastResponse: false }],
+        answers: [],
+        additionals: []
+      })
+    ).toThrow('DNS label too long');
+  });
+
+  it('should reject TXT strings longer than 255 bytes', () => {
+    expect(() =>
+      dns.encodePacket({
+        id: 0,
+        flags: 0,
+        questions: [],
+        answers: [{ type: 'TXT', name: ['x', 'local'], ttl: 120, entries: ['workspace=' + 'x'.repeat(246)] }],
+        additionals: []
+      })
+    ).toThrow('TXT string too long');
+  });
+
+  it('should compare names case-insensitively', () => {
+    expect(dns.namesEqual(['_AirCodum', 'LOCAL'], ['_aircodum', 'local'])).toBe(true);
+    expect(dns.namesEqual(['_aircodum'], ['_aircodum', 'local'])).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * mDNS Advertiser Tests
+ */
+import * as dgram from 'dgram';
+
+// Not 5353, which the OS responder may own
+const TEST_PORT = 45353;
+
+describe('mDNS Advertiser', () => {
+  let dns: any;
+  let mdns: any;
+  let advertiser: any;
+  let client: dgram.Socket | null;
+
+  const service = {
+    name: 'test-host (project)',
+    host: 'aircodum-test-host',
+    port: 11040,
+    addresses: ['192.168.1.20'],
+    txt: { proto: '1', tls: '1', pairing: '1' }
+  };
+
+  const nextPacket = (socket: dgram.Socket, accept: (packet: any) => boolean) =>
+    new Promise<any>((resolve) => {
+      const onMessage = (message: Buffer) => {
+        const packet = dns.decodePacket(message);
+        if (accept(packet)) {
+          socket.off('message', onMessage);
+          resolve(packet);
+        }
+      };
+      socket.on('message', onMessage);
+    });
+
+  beforeEach(() => {
+    dns = require('../../src/discovery/dns-packet');
+    mdns = require('../../src/discovery/mdns');
+    advertiser = new mdns.MdnsAdvertiser(service, { port: TEST_PORT });
+    client = null;
+  });
+
+  afterEach(async () => {
+    await advertiser.stop();
+    if (client) {
+      const socket = client;
+      await new Promise<void>((resolve) => socket.close(() => resolve()));
+    }
+  });
+
+  it('should answer a legacy unicast query for the service type', async () => {
+    const socket = (client = dgram.createSocket('udp4'));
+    await new Promise<void>((resolve) => socket.bind(0, resolve));
+    await advertiser.start();
+
+    const response = nextPacket(socket, (packet) => packet.id === 7);
+    socket.send(
+      dns.encodePacket({
+        id: 7,
+        flags: 0,
+        questions: [{ name: ['_aircodum', '_tcp', 'local'], type: dns.RecordTypes.PTR, unicastResponse: false }],
+        answers: [],
+        additionals: []
+      }),
+      TEST_PORT,
+      mdns.MDNS_ADDRESS
+    );
+    const packet = await response;
+
+    expect(packet.questions).toHaveLength(1);
+    expect(packet.answers[0]).toMatchObject({
+      type: 'PTR',
+      target: ['test-host (project)', '_aircodum', '_tcp', 'local']
+    });
+    expect(packet.additionals).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: 'SRV', port: 11040, target: ['aircodum-test-host', 'local'], ttl: 10 }),
+        expect.objectContaining({ type: 'TXT', entries: ['proto=1', 'tls=1', 'pairing=1'] }),
+        expect.objectContaining({ type: 'A', address: '192.168.1.20' })
+      ])
+    );
+  });
+
+  it('should announce on start and say goodbye on stop', async () => {
+    const socket = (client = dgram.createSocket({ type: 'udp4', reuseAddr: true }));
+    await new Promise<void>((resolve) => socket.bind(TEST_PORT, resolve));
+    socket.addMembership(mdns.MDNS_ADDRESS);
+
+    const isAnnouncement = (ttl: (value: number) => boolean) => (packet: any) =>
+      packet.answers.some((r: any) => r.type === 'PTR' && r.name[0] === '_aircodum' && ttl(r.ttl));
+
+    const announcement = nextPacket(socket, isAnnouncement((ttl) => ttl > 0));
+    await advertiser.start();
+    await announcement;
+
+    const goodbye = nextPacket(socket, isAnnouncement((ttl) => ttl === 0));
+    await advertiser.stop();
+    await goodbye;
+  });
+
+  it('should announce new addresses', async () => {
+    const socket = (client = dgram.createSocket({ type: 'udp4', reuseAddr: true }));
+    await new Promise<void>((resolve) => socket.bind(TEST_PORT, resolve));
+    socket.addMembership(mdns.MDNS_ADDRESS);
+    await advertiser.start();
+
+    const announcement = nextPacket(socket, (packet) =>
+      packet.answers.some((r: any) => r.type === 'A' && r.address === '10.0.0.5')
+    );
+    advertiser.updateAddresses(['10.0.0.5']);
+    const addresses = (await announcement).answers.filter((r: any) => r.type === 'A');
+
+    expect(addresses).toEqual([expect.objectContaining({ address: '10.0.0.5', cacheFlush: true })]);
+  });
+
+  it('should close the socket when it cannot join the multicast group', async () => {
+    jest.spyOn(dgram.Socket.prototype, 'addMembership').mockImplementation(() => {
+      throw new Error('addMembership ENODEV');
+    });
+    const close = jest.spyOn(dgram.Socket.prototype, 'close');
+
+    try {
+      await expect(advertiser.start()).rejects.toThrow('ENODEV');
+      expect(close).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should cut TXT strings short to fit', async () => {
+    const long = new mdns.MdnsAdvertiser(
+      { ...service, txt: { workspace: 'w'.repeat(300) } },
+      { port: TEST_PORT }
+    );
+    const socket = (client = dgram.createSocket({ type: 'udp4', reuseAddr: true }));
+    await new Promise<void>((resolve) => socket.bind(TEST_PORT, resolve));
+    socket.addMembership(mdns.MDNS_ADDRESS);
+
+    const announcement = nextPacket(socket, (packet) => packet.answers.some((r: any) => r.type === 'TXT'));
+    await long.start();
+    try {
+      const txt = (await announcement).answers.find((r: any) => r.type === 'TXT');
+      expect(txt.entries).toEqual(['workspace=' + 'w'.repeat(245)]);
+    } finally {
+      await long.stop();
+    }
+  });
+
+  it('should trim instance names to a single DNS label', () => {
+    const label = mdns.toDnsLabel('é'.repeat(40));
+
+    expect(Buffer.byteLength(label)).toBeLessThanOrEqual(63);
+    expect(label).toBe('é'.repeat(31));
+  });
+});
@@ -6,7 +6,17 @@ import * as vscode from 'vscode';
 // Mock the dependencies
 jest.mock('../src/server', () => ({
   startServer: jest.fn().mockResolvedValue(undefined),
-  stopServer: jest.fn()
+  stopServer: jest.fn(),
+  closeServer: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('../src/security/certificate', () => ({
+  loadOrCreateCertificate: jest.fn().mockResolvedValue({
+    cert: 'cert',
+    key: 'key',
+    fingerprint: 'AA:BB',
+    renewed: false
+  })
 }));
 
 jest.mock('../src/webview', () => ({
@@ -14,13 +24,14 @@ jest.mock('../src/webview', () => ({
 }));
 
 jest.mock('../src/utils', () => ({
-  getIPAddress: jest.fn().mockReturnValue('127.0.0.1')
+  getIPAddress: jest.fn().mockReturnValue('127.0.0.1'),
+  getNetworkAddresses: jest.fn().mockReturnValue([])
 }));
 
 jest.mock('../src/state/store', () => ({
   store: {
     getState: jest.fn().mockReturnValue({
-      server: { isRunning: false, address: null, port: 11040 },
+      server: { isRunning: false, address: null, addresses: [], port: 11040, tlsFingerprint: null, tlsRenewedAt: null },
       webview: { panel: null },
       websocket: { wss: null, connections: [] },
       currentContext: { messageType: 'none' },
@@ -37,7 +48,14 @@ describe('Extension', () => {
   beforeEach(() => {
     mockContext = {
       subscriptions: [],
-      asAbsolutePath: jest.fn((path: string) => `/test/extension/${path}`)
+      asAbsolutePath: jest.fn((path: string) => `/test/extension/${path}`),
+      globalStorageUri: { fsPath: '/test/storage' } as any,
+      secrets: {
+        get: jest.fn().mockResolvedValue(undefined),
+        store: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(undefined),
+        onDidChange: jest.fn()
+      } as any
     };
     
     jest.clearAllMocks();
@@ -105,11 +123,62 @@ describe('Extension', () => {
       if (startCommand) {
         await startCommand[1](); // Call the command handler
         
-        expect(startServer).toHaveBeenCalledWith('0.0.0.0');
+        expect(startServer).toHaveBeenCalledWith(
+          '0.0.0.0',
+          expect.objectContaining({ fingerprint: 'AA:BB' })
+        );
         expect(createWebviewPanel).toHaveBeenCalled();
       }
     });
 
+    it('should tell the user when the certificate was renewed', async () => {
+      const { loadOrCreateCertificate } = require('../src/security/certificate');
+      const extension = require('../src/extension');
+      loadOrCreateCertificate.mockResolvedValueOnce({ cert: 'cert', key: 'key', fingerprint: 'CC:DD', renewed: true });
+
+      extension.activate(mockContext as vscode.ExtensionContext);
+      const startCommand = (vscode.commands.registerCommand as jest.Mock).mock.calls
+        .find(call => call[0] === 'extension.startAirCodumServer');
+      await startCommand[1]();
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(expect.stringContaining('CC:DD'));
+    });
+
+    it('should restart the server one change at a time', async () => {
+      const { startServer, closeServer } = require('../src/server');
+      const { store } = require('../src/state/store');
+      const extension = require('../src/extension');
+      const state = store.getState();
+      store.getState.mockReturnValue({ ...state, server: { ...state.server, isRunning: true } });
+      const calls: string[] = [];
+      closeServer.mockImplementation(async () => {
+        calls.push('close');
+      });
+      startServer.mockImplementation(async () => {
+        calls.push('start');
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        calls.push('started');
+      });
+
+      try {
+        extension.activate(mockContext as vscode.ExtensionContext);
+        const onChange = (vscode.workspace.onDidChangeConfiguration as jest.Mock).mock.calls.at(-1)[0];
+        const event = { affectsConfiguration: () => true };
+        onChange(event);
+        onChange(event);
+
+        const deadline = Date.now() + 1000;
+        while (calls.length < 6 && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(calls).toEqual(['close', 'start', 'started', 'close', 'start', 'started']);
+      } finally {
+        store.getState.mockReturnValue(state);
+        startServer.mockResolvedValue(undefined);
+        closeServer.mockResolvedValue(undefined);
+      }
+    });
+
     it('should handle server stop command', () => {
       const { stopServer } = require('../src/server');
       const extension = require('../src/extension');
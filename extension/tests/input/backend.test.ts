@@ -0,0 +1,60 @@
+/**
+ * Input Backend Tests
+ */
+
+describe('Input Backend', () => {
+  let input: any;
+  let FakeInputBackend: any;
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    input = require('../../src/input/backend');
+    ({ FakeInputBackend } = require('../../src/input/fake'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report input as unavailable when robotjs cannot be loaded', () => {
+    // No native module is built next to the sources
+    expect(input.isInputAvailable()).toBe(false);
+    expect(() => input.getInputBackend()).toThrow(input.InputUnavailableError);
+    expect(() => input.getInputBackend()).toThrow('Remote input is unavailable on this machine');
+  });
+
+  it('should only try to load robotjs once', () => {
+    input.isInputAvailable();
+    input.isInputAvailable();
+
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the backend it is given', () => {
+    const backend = new FakeInputBackend();
+    input.setInputBackend(backend);
+
+    expect(input.isInputAvailable()).toBe(true);
+    expect(input.getInputBackend()).toBe(backend);
+  });
+
+  it('should record calls to the fake backend in order', () => {
+    const backend = new FakeInputBackend();
+
+    backend.moveMouse(10, 20);
+    backend.mouseToggle('down');
+    backend.keyTap('c', ['control']);
+    backend.scrollMouse(0, -3);
+
+    expect(backend.calls).toEqual([
+      { method: 'moveMouse', args: [10, 20] },
+      { method: 'mouseToggle', args: ['down', 'left'] },
+      { method: 'keyTap', args: ['c', ['control']] },
+      { method: 'scrollMouse', args: [0, -3] },
+    ]);
+
+    backend.reset();
+    expect(backend.calls).toEqual([]);
+  });
+});
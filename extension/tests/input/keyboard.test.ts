@@ -0,0 +1,80 @@
+/**
+ * Keyboard Event Injection Tests
+ */
+
+describe('Keyboard Events', () => {
+  let keyboard: any;
+  let keys: any;
+  let backend: any;
+  let held: any;
+
+  const shortcut = process.platform === 'darwin' ? 'command' : 'control';
+
+  const inject = (event: any) =>
+    keyboard.injectKeyEvent(backend, { type: 'keyboard-event', ...event }, held);
+
+  const calls = () => backend.calls.map((call: any) => [call.method, ...call.args]);
+
+  beforeEach(() => {
+    keyboard = require('../../src/input/keyboard');
+    keys = require('../../src/input/keys');
+    const { FakeInputBackend } = require('../../src/input/fake');
+    backend = new FakeInputBackend();
+    held = new keyboard.HeldKeys();
+  });
+
+  it('should translate key names phones send into robotjs names', () => {
+    expect(keys.toRobotKey('Enter')).toBe('enter');
+    expect(keys.toRobotKey('ArrowUp')).toBe('up');
+    expect(keys.toRobotKey('KEYCODE_DEL')).toBe('backspace');
+    expect(keys.toRobotKey('KEYCODE_FORWARD_DEL')).toBe('delete');
+    expect(keys.toRobotKey('UIKeyInputLeftArrow')).toBe('left');
+    expect(keys.toRobotKey('Meta')).toBe('command');
+    expect(keys.toRobotKey('mod')).toBe(shortcut);
+    expect(keys.toRobotKey('A')).toBe('A');
+    expect(keys.toRobotKey(' ')).toBe('space');
+  });
+
+  it('should reject unknown keys and modifiers', () => {
+    expect(() => keys.toRobotKey('Hyper')).toThrow('Unknown key: Hyper');
+    expect(() => keys.toRobotKey('é')).toThrow('Unknown key: é');
+    expect(() => keys.toRobotModifiers(['shift', 'a'])).toThrow('Not a modifier key: a');
+    expect(keys.toRobotModifiers('Ctrl')).toEqual(['control']);
+  });
+
+  it('should tap a key with its modifiers', () => {
+    inject({ key: 'z', modifier: ['mod', 'Shift'] });
+
+    expect(calls()).toEqual([['keyTap', 'z', [shortcut, 'shift']]]);
+  });
+
+  it('should hold modifiers across presses until they are released', () => {
+    inject({ key: 'Shift', eventType: 'down' });
+    inject({ key: 'ArrowRight' });
+    inject({ key: 'ArrowRight', modifier: 'alt' });
+    inject({ key: 'Shift', eventType: 'up' });
+    inject({ key: 'ArrowRight' });
+
+    expect(calls()).toEqual([
+      ['keyToggle', 'shift', 'down', []],
+      ['keyTap', 'right', ['shift']],
+      ['keyTap', 'right', ['shift', 'alt']],
+      ['keyToggle', 'shift', 'up', []],
+      ['keyTap', 'right', []],
+    ]);
+  });
+
+  it('should release every held key', () => {
+    inject({ key: 'Control', eventType: 'down' });
+    inject({ key: 'a', eventType: 'down' });
+    backend.reset();
+
+    held.releaseAll(backend);
+
+    expect(calls()).toEqual([
+      ['keyToggle', 'control', 'up'],
+      ['keyToggle', 'a', 'up'],
+    ]);
+    expect(held.size).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Mouse Event Injection Tests
+ */
+
+describe('Mouse Events', () => {
+  let mouse: any;
+  let backend: any;
+  let scroll: any;
+
+  const position = { x: 10, y: 20, screenWidth: 400, screenHeight: 800 };
+
+  const inject = (event: any, scale = 1) =>
+    mouse.injectMouseEvent(
+      backend,
+      { type: 'mouse-event', ...position, ...event },
+      { x: 100, y: 200 },
+      scale,
+      scroll
+    );
+
+  const calls = () => backend.calls.map((call: any) => [call.method, ...call.args]);
+
+  beforeEach(() => {
+    mouse = require('../../src/input/mouse');
+    const { FakeInputBackend } = require('../../src/input/fake');
+    backend = new FakeInputBackend();
+    scroll = new mouse.ScrollAccumulator();
+  });
+
+  it('should drag with the chosen button held', () => {
+    inject({ eventType: 'down', button: 'right' });
+    inject({ eventType: 'move' });
+    inject({ eventType: 'up', button: 'right' });
+
+    expect(calls()).toEqual([
+      ['moveMouse', 100, 200],
+      ['mouseToggle', 'down', 'right'],
+      ['moveMouse', 100, 200],
+      ['moveMouse', 100, 200],
+      ['mouseToggle', 'up', 'right'],
+    ]);
+  });
+
+  it('should click once, twice or three times', () => {
+    inject({ eventType: 'click', button: 'middle' });
+    inject({ eventType: 'click', clickCount: 2 });
+    inject({ eventType: 'click', clickCount: 3 });
+
+    expect(calls().filter(([method]: string[]) => method === 'mouseClick')).toEqual([
+      ['mouseClick', 'middle', false],
+      ['mouseClick', 'left', true],
+      ['mouseClick', 'left', true],
+      ['mouseClick', 'left', false],
+    ]);
+  });
+
+  it('should scroll the wheel in both directions', () => {
+    inject({ eventType: 'scroll', deltaX: -2, deltaY: 3 });
+
+    expect(calls()).toEqual([
+      ['moveMouse', 100, 200],
+      ['scrollMouse', -2, 3],
+    ]);
+  });
+
+  it('should limit how far one event scrolls', () => {
+    inject({ eventType: 'scroll', deltaX: 500, deltaY: -9000 });
+    inject({ eventType: 'two-finger-scroll', deltaY: -9000 });
+
+    expect(calls().filter(([method]: string[]) => method === 'scrollMouse')).toEqual([
+      ['scrollMouse', 20, -20],
+      ['scrollMouse', 0, 20],
+    ]);
+  });
+
+  it('should right-click on a long press', () => {
+    inject({ eventType: 'long-press' });
+
+    expect(calls()).toEqual([
+      ['moveMouse', 100, 200],
+      ['mouseClick', 'right', false],
+    ]);
+  });
+
+  it('should scroll the content along with a two-finger pan', () => {
+    // 30 screen pixels up: less than a step
+    inject({ eventType: 'two-finger-scroll', deltaY: -15 }, 2);
+    expect(calls().filter(([method]: string[]) => method === 'scrollMouse')).toEqual([]);
+
+    // 60 pixels in all, carrying over the first pan
+    inject({ eventType: 'two-finger-scroll', deltaY: -15 }, 2);
+    expect(calls().filter(([method]: string[]) => method === 'scrollMouse')).toEqual([
+      ['scrollMouse', 0, 1],
+    ]);
+
+    backend.reset();
+    scroll.reset();
+    inject({ eventType: 'two-finger-scroll', deltaX: 100, deltaY: 50 });
+    expect(calls()).toEqual([
+      ['moveMouse', 100, 200],
+      ['scrollMouse', -2, -1],
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Text Input Tests
+ */
+
+describe('Text Input', () => {
+  let vscode: any;
+  let text: any;
+  let backend: any;
+
+  const calls = () => backend.calls.map((call: any) => [call.method, ...call.args]);
+
+  beforeEach(() => {
+    jest.resetModules();
+    vscode = require('vscode');
+    vscode.window.state.focused = false;
+    vscode.commands.executeCommand.mockClear();
+    vscode.env.clipboard.writeText.mockClear();
+    vscode.env.clipboard.readText.mockResolvedValue('copied earlier');
+
+    const input = require('../../src/input/backend');
+    const { FakeInputBackend } = require('../../src/input/fake');
+    backend = new FakeInputBackend();
+    input.setInputBackend(backend);
+    text = require('../../src/input/text');
+  });
+
+  it('should type into the focused editor with the type command', async () => {
+    vscode.window.state.focused = true;
+
+    await text.typeText('café ☕ 日本語');
+
+    expect(vscode.commands.executeCommand).toHaveBeenCalledWith('type', { text: 'café ☕ 日本語' });
+    expect(calls()).toEqual([]);
+  });
+
+  it('should type ASCII key by key outside the editor', async () => {
+    await text.typeText('hello world');
+
+    expect(calls()).toEqual([['typeString', 'hello world']]);
+    expect(vscode.commands.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should paste other text and restore the clipboard', async () => {
+    await text.typeText('naïve');
+
+    const modifier = process.platform === 'darwin' ? 'command' : 'control';
+    expect(calls()).toEqual([['keyTap', 'v', modifier]]);
+    expect(vscode.env.clipboard.writeText.mock.calls).toEqual([['naïve'], ['copied earlier']]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Binary Frame Tests
+ */
+
+describe('Binary Frames', () => {
+  let frames: any;
+
+  beforeEach(() => {
+    frames = require('../../src/protocol/frames');
+  });
+
+  it('should prefix the image with a fixed-size header', () => {
+    const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+    const frame = frames.encodeFrame(
+      { kind: 'screen', codec: 'jpeg', sequence: 5, width: 1440, height: 900, timestamp: 1700000000123 },
+      image
+    );
+
+    expect(frame.length).toBe(frames.FRAME_HEADER_LENGTH + image.length);
+    expect(frame.readUInt8(0)).toBe(1);
+    expect(frame.readUInt8(1)).toBe(1);
+    expect(frame.readUInt16BE(2)).toBe(20);
+    expect(frame.readUInt32BE(4)).toBe(5);
+    expect(frame.readUInt16BE(8)).toBe(1440);
+    expect(frame.subarray(20)).toEqual(image);
+  });
+
+  it('should round-trip the header', () => {
+    const header = { kind: 'screen', codec: 'png', sequence: 42, width: 800, height: 600, timestamp: 1700000000123.5 };
+
+    const { header: decoded, payload } = frames.decodeFrame(
+      frames.encodeFrame(header, Buffer.from('png'))
+    );
+
+    expect(decoded).toEqual(header);
+    expect(payload.toString()).toBe('png');
+  });
+
+  it('should wrap sequence numbers around', () => {
+    const frame = frames.encodeFrame(
+      { kind: 'screen', codec: 'jpeg', sequence: 2 ** 32 + 1, width: 1, height: 1, timestamp: 0 },
+      Buffer.alloc(0)
+    );
+
+    expect(frames.decodeFrame(frame).header.sequence).toBe(1);
+  });
+
+  it('should round-trip changed tiles', () => {
+    const tiles = [
+      { x: 0, y: 0, width: 64, height: 64, image: Buffer.from('first') },
+      { x: 1408, y: 896, width: 32, height: 4, image: Buffer.from('edge') }
+    ];
+    const frame = frames.encodeFrame(
+      { kind: 'tiles', codec: 'jpeg', sequence: 1, width: 1440, height: 900, timestamp: 0 },
+      frames.encodeTiles(tiles)
+    );
+
+    const { header, payload } = frames.decodeFrame(frame);
+
+    expect(header.kind).toBe('tiles');
+    expect(frames.decodeTiles(payload)).toEqual(tiles);
+  });
+
+  it('should reject truncated frames', () => {
+    expect(() => frames.decodeFrame(Buffer.alloc(4))).toThrow('shorter than its header');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Message Protocol Validation Tests
+ */
+
+describe('Message Protocol', () => {
+  let protocol: any;
+
+  const parse = (message: unknown, strict = true) =>
+    protocol.parseClientMessage(
+      typeof message === 'string' ? message : JSON.stringify(message),
+      strict
+    );
+
+  const errorOf = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return error as any;
+    }
+    throw new Error('Expected a ProtocolError');
+  };
+
+  beforeEach(() => {
+    protocol = require('../../src/protocol/validate');
+  });
+
+  it('should accept a valid handshake', () => {
+    const hello = { type: 'hello', protocolVersion: 1, capabilities: ['screen-update'] };
+
+    expect(parse(hello)).toEqual(hello);
+  });
+
+  it('should accept keyboard events with one or several modifiers', () => {
+    expect(parse({ type: 'keyboard-event', key: 'c', modifier: 'control' })).toBeTruthy();
+    expect(parse({ type: 'keyboard-event', key: 'z', modifier: ['command', 'shift'] })).toBeTruthy();
+  });
+
+  it('should accept clipboard text and images, and sync toggles', () => {
+    expect(parse({ type: 'clipboard-push', format: 'text', data: '' })).toBeTruthy();
+    expect(parse({ type: 'clipboard-push', format: 'image', data: 'iVBORw0KGgo=' })).toBeTruthy();
+    expect(parse({ type: 'clipboard-sync', enabled: true })).toBeTruthy();
+    expect(
+      errorOf(() => parse({ type: 'clipboard-push', format: 'html', data: 1 })).details
+    ).toEqual(['format: expected one of "text", "image"', 'data: expected a string']);
+    expect(errorOf(() => parse({ type: 'clipboard-sync', enabled: 'yes' })).details).toEqual([
+      'enabled: expected a boolean'
+    ]);
+  });
+
+  it('should require a command id to run from the catalog', () => {
+    expect(parse({ type: 'list-commands' })).toBeTruthy();
+    expect(parse({ type: 'run-command', command: 'gitlens.showGraph' })).toBeTruthy();
+    expect(errorOf(() => parse({ type: 'run-command' })).details).toEqual([
+      'command: expected a non-empty string'
+    ]);
+  });
+
+  it('should accept held keys and typed text', () => {
+    expect(parse({ type: 'keyboard-event', key: 'Shift', eventType: 'down' })).toBeTruthy();
+    expect(parse({ type: 'text-input', text: 'こんにちは 👋' })).toBeTruthy();
+    expect(
+      errorOf(() => parse({ type: 'keyboard-event', key: 'a', eventType: 'hold' })).details
+    ).toEqual(['eventType: expected one of "press", "down", "up"']);
+    expect(errorOf(() => parse({ type: 'text-input', text: '' })).details).toEqual([
+      'text: expected a non-empty string'
+    ]);
+  });
+
+  it('should report every invalid field', () => {
+    const error = errorOf(() =>
+      parse({ type: 'mouse-event', eventType: 'wiggle', x: '10', y: 5, screenWidth: 0 })
+    );
+
+    expect(error).toBeInstanceOf(protocol.ProtocolError);
+    expect(error.code).toBe('invalid-message');
+    expect(error.details).toEqual([
+      'eventType: expected one of "down", "up", "move", "click", "scroll", "long-press", "two-finger-scroll"',
+      'x: expected a number',
+      'screenWidth: expected a positive number',
+      'screenHeight: expected a positive number'
+    ]);
+  });
+
+  it('should accept clicks with a button and a click count, and scrolls with deltas', () => {
+    const position = { x: 10, y: 20, screenWidth: 400, screenHeight: 800 };
+
+    expect(parse({ type: 'mouse-event', eventType: 'click', button: 'right', clickCount: 2, ...position })).toBeTruthy();
+    expect(parse({ type: 'mouse-event', eventType: 'scroll', deltaX: -1, deltaY: 3, ...position })).toBeTruthy();
+    expect(
+      errorOf(() => parse({ type: 'mouse-event', eventType: 'click', button: 'back', clickCount: 4, ...position })).details
+    ).toEqual([
+      'button: expected one of "left", "right", "middle"',
+      'clickCount: expected 1, 2 or 3',
+    ]);
+    expect(
+      errorOf(() => parse({ type: 'mouse-event', eventType: 'scroll', deltaY: 1e9, ...position })).details
+    ).toEqual(['deltaY: expected a number between -10000 and 10000']);
+  });
+
+  it('should reject unknown message types', () => {
+    expect(errorOf(() => parse({ type: 'format-disk' })).code).toBe('unknown-type');
+  });
+
+  it('should accept a region, a saved region name or null', () => {
+    expect(parse({ type: 'set-region', region: { x: 0.2, y: 0, width: 0.6, height: 0.5 } })).toBeTruthy();
+    expect(parse({ type: 'set-region', region: 'editor' })).toBeTruthy();
+    expect(parse({ type: 'set-region', region: null })).toBeTruthy();
+    expect(errorOf(() => parse({ type: 'set-region', region: { x: 0.8, y: 0, width: 0.6, height: 0.5 } })).code).toBe(
+      'invalid-message'
+    );
+  });
+
+  it('should only accept integer frame acknowledgements', () => {
+    expect(parse({ type: 'frame-ack', sequence: 1042 })).toBeTruthy();
+    expect(errorOf(() => parse({ type: 'frame-ack', sequence: 1.5 })).details).toEqual([
+      'sequence: expected an integer'
+    ]);
+  });
+
+  it('should ignore unknown fields', () => {
+    expect(parse({ type: 'chat', prompt: 'hi', mood: 'curious' })).toBeTruthy();
+  });
+
+  it('should accept string and integer ids on any message', () => {
+    expect(parse({ type: 'command', command: 'Format Document', id: 'a1' }).id).toBe('a1');
+    expect(parse({ type: 'file-upload', id: 7 }).id).toBe(7);
+    expect(errorOf(() => parse({ type: 'chat', prompt: 'hi', id: 1.5 })).details).toEqual([
+      'id: expected a string or an integer'
+    ]);
+  });
+
+  it('should keep the id of a rejected message for correlation', () => {
+    expect(errorOf(() => parse({ type: 'command', id: 'a2' })).id).toBe('a2');
+    expect(errorOf(() => parse({ type: 'format-disk', id: 3 })).id).toBe(3);
+    expect(errorOf(() => parse({ type: 'command', id: {} })).id).toBeUndefined();
+  });
+
+  it('should leave raw text to legacy clients', () => {
+    expect(parse('type hello', false)).toBeNull();
+    expect(parse('42', false)).toBeNull();
+    expect(parse({ type: 'custom-action', payload: 1 }, false)).toBeNull();
+    // Typed messages are still validated
+    expect(errorOf(() => parse({ type: 'command' }, false)).code).toBe('invalid-message');
+  });
+
+  it('should reject raw text once the handshake is done', () => {
+    expect(errorOf(() => parse('type hello')).code).toBe('invalid-json');
+    expect(errorOf(() => parse('[1, 2]')).code).toBe('invalid-message');
+  });
+});
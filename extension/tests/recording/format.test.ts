@@ -0,0 +1,79 @@
+/**
+ * Session Recording Format Tests
+ */
+
+describe('Recording Format', () => {
+  let format: any;
+  let frames: any;
+
+  const frame = (sequence: number, image: string) =>
+    frames.encodeFrame(
+      { kind: 'screen', codec: 'jpeg', sequence, width: 1440, height: 900, timestamp: 1700000000000 + sequence },
+      Buffer.from(image)
+    );
+
+  const event = { device: 'Phone', type: 'keyboard-event', args: { key: '[redacted]' } };
+
+  beforeEach(() => {
+    format = require('../../src/recording/format');
+    frames = require('../../src/protocol/frames');
+  });
+
+  it('should round-trip frames and events in order', () => {
+    const buffer = Buffer.concat([
+      format.encodeRecordingHeader({ startedAt: 1700000000000, workspace: 'aircodum' }),
+      format.encodeFrameRecord(0, frame(0, 'first')),
+      format.encodeEventRecord(12.5, event),
+      format.encodeFrameRecord(40, frame(1, 'second')),
+    ]);
+
+    const recording = format.decodeRecording(buffer);
+
+    expect(recording.metadata).toEqual({ startedAt: 1700000000000, workspace: 'aircodum' });
+    expect(recording.entries.map((entry: any) => [entry.kind, entry.time])).toEqual([
+      ['frame', 0],
+      ['event', 12.5],
+      ['frame', 40],
+    ]);
+    expect(recording.entries[0].image.toString()).toBe('first');
+    expect(recording.entries[0].header.width).toBe(1440);
+    expect(recording.entries[1].event).toEqual(event);
+    expect(recording.entries[2].header.sequence).toBe(1);
+  });
+
+  it('should ignore a truncated last record', () => {
+    const complete = Buffer.concat([
+      format.encodeRecordingHeader({ startedAt: 0 }),
+      format.encodeFrameRecord(0, frame(0, 'kept')),
+    ]);
+    const truncated = format.encodeFrameRecord(40, frame(1, 'cut short'));
+
+    const recording = format.decodeRecording(
+      Buffer.concat([complete, truncated.subarray(0, truncated.length - 3)])
+    );
+
+    expect(recording.entries).toHaveLength(1);
+    expect(recording.entries[0].image.toString()).toBe('kept');
+  });
+
+  it('should skip unknown record types', () => {
+    const unknown = format.encodeFrameRecord(5, Buffer.from('future'));
+    unknown.writeUInt8(99, 0);
+
+    const recording = format.decodeRecording(
+      Buffer.concat([
+        format.encodeRecordingHeader({ startedAt: 0 }),
+        unknown,
+        format.encodeEventRecord(10, event),
+      ])
+    );
+
+    expect(recording.entries).toEqual([{ kind: 'event', time: 10, event }]);
+  });
+
+  it('should reject files that are not recordings', () => {
+    expect(() => format.decodeRecording(Buffer.from('not a recording'))).toThrow(
+      'Not an AirCodum recording'
+    );
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Session Replay Tests
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Session Replay', () => {
+  let replay: any;
+  let recorder: any;
+
+  const entries = [0, 100, 250, 1000].map((time) => ({
+    kind: 'event',
+    time,
+    event: { device: 'Phone', type: 'mouse-event', args: {} },
+  }));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    replay = require('../../src/recording/replay');
+    recorder = require('../../src/recording/recorder');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should play entries at their recorded times', () => {
+    const played: number[] = [];
+    const onEnd = jest.fn();
+    const player = new replay.ReplayPlayer(entries, (entry: any) => played.push(entry.time), onEnd);
+
+    player.play();
+    jest.advanceTimersByTime(0);
+    expect(played).toEqual([0]);
+
+    jest.advanceTimersByTime(250);
+    expect(played).toEqual([0, 100, 250]);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(750);
+    expect(played).toEqual([0, 100, 250, 1000]);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume where it was paused', () => {
+    const played: number[] = [];
+    const player = new replay.ReplayPlayer(entries, (entry: any) => played.push(entry.time));
+
+    player.play();
+    jest.advanceTimersByTime(150);
+    player.pause();
+    jest.advanceTimersByTime(5000);
+    expect(played).toEqual([0, 100]);
+
+    player.play();
+    jest.advanceTimersByTime(100);
+    expect(played).toEqual([0, 100, 250]);
+  });
+
+  it('should play faster at a higher speed', () => {
+    const played: number[] = [];
+    const player = new replay.ReplayPlayer(entries, (entry: any) => played.push(entry.time));
+
+    player.setSpeed(4);
+    player.play();
+    jest.advanceTimersByTime(250);
+
+    expect(played).toEqual([0, 100, 250, 1000]);
+  });
+
+  it('should start over on restart', () => {
+    const played: number[] = [];
+    const player = new replay.ReplayPlayer(entries, (entry: any) => played.push(entry.time));
+
+    player.play();
+    jest.advanceTimersByTime(1000);
+    player.restart();
+    jest.advanceTimersByTime(0);
+
+    expect(played).toEqual([0, 100, 250, 1000, 0]);
+  });
+
+  it('should read entries from the file as they are needed', async () => {
+    jest.useRealTimers();
+    const format = require('../../src/recording/format');
+    const frames = require('../../src/protocol/frames');
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aircodum-replay-'));
+    const filePath = path.join(dir, 'session.acrec');
+    const frame = format.encodeFrameRecord(
+      0,
+      frames.encodeFrame(
+        { kind: 'screen', codec: 'jpeg', sequence: 0, width: 1024, height: 640, timestamp: 0 },
+        Buffer.from('image')
+      )
+    );
+    const truncated = format.encodeEventRecord(900, entries[0].event);
+    fs.writeFileSync(
+      filePath,
+      Buffer.concat([
+        format.encodeRecordingHeader({ startedAt: 1700000000000 }),
+        frame,
+        format.encodeEventRecord(40, entries[0].event),
+        truncated.subarray(0, truncated.length - 1),
+      ])
+    );
+
+    const recording = await replay.RecordingFile.open(filePath);
+    try {
+      expect(recording.metadata).toEqual({ startedAt: 1700000000000 });
+      expect(recording.records.map((record: any) => record.time)).toEqual([0, 40]);
+      expect(recording.duration).toBe(40);
+
+      const read = [];
+      for await (const entry of recording.entries()) {
+        read.push(entry);
+      }
+      expect(read[0].image.toString()).toBe('image');
+      expect(read[1]).toEqual({ kind: 'event', time: 40, event: entries[0].event });
+    } finally {
+      await recording.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should record frames at the recording rate and quality', async () => {
+    jest.useRealTimers();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aircodum-recorder-'));
+    recorder.initRecording({ storageUri: { fsPath: dir } });
+    let push: (frame: Buffer) => void = () => {};
+    const source = jest.fn((callback: any) => {
+      push = (frame) => callback(frame, { width: 1024, height: 640 }, Date.now());
+      return () => {};
+    });
+
+    try {
+      const filePath = await recorder.startRecording(source);
+      push(Buffer.from('first'));
+      push(Buffer.from('too soon'));
+      await recorder.stopRecording();
+
+      expect(source).toHaveBeenCalledWith(expect.any(Function), recorder.RECORDING_QUALITY);
+      const recording = await replay.RecordingFile.open(filePath);
+      const read = [];
+      for await (const entry of recording.entries()) {
+        read.push(entry.image.toString());
+      }
+      await recording.close();
+      expect(read).toEqual(['first']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should redact typed text in recorded input', () => {
+    expect(
+      recorder.describeInput('Phone', { type: 'chat', prompt: 'my password' }, true).args
+    ).toEqual({ prompt: '[redacted]' });
+    expect(
+      recorder.describeInput('Phone', { type: 'keyboard-event', key: 'enter', modifier: [] }, true).args
+    ).toEqual({ key: 'enter', modifier: [] });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * TLS Certificate Tests
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import selfsigned from 'selfsigned';
+
+describe('TLS Certificate', () => {
+  let certificate: any;
+  let storagePath: string;
+
+  beforeEach(() => {
+    certificate = require('../../src/security/certificate');
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'aircodum-cert-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should generate and persist a certificate on first use', async () => {
+    const credentials = await certificate.loadOrCreateCertificate(storagePath);
+
+    expect(credentials.cert).toContain('BEGIN CERTIFICATE');
+    expect(credentials.key).toContain('PRIVATE KEY');
+    expect(credentials.fingerprint).toMatch(/^([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+    expect(credentials.renewed).toBe(false);
+    expect(fs.existsSync(path.join(storagePath, 'aircodum-cert.pem'))).toBe(true);
+    expect(fs.existsSync(path.join(storagePath, 'aircodum-key.pem'))).toBe(true);
+  });
+
+  it('should reuse the persisted certificate', async () => {
+    const first = await certificate.loadOrCreateCertificate(storagePath);
+    const second = await certificate.loadOrCreateCertificate(storagePath);
+
+    expect(second.fingerprint).toBe(first.fingerprint);
+    expect(second.renewed).toBe(false);
+    expect(certificate.getFingerprint(second.cert)).toBe(first.fingerprint);
+  });
+
+  it('should regenerate an unreadable certificate', async () => {
+    const first = await certificate.loadOrCreateCertificate(storagePath);
+    fs.writeFileSync(path.join(storagePath, 'aircodum-cert.pem'), 'garbage');
+
+    const second = await certificate.loadOrCreateCertificate(storagePath);
+
+    expect(second.fingerprint).not.toBe(first.fingerprint);
+    expect(second.renewed).toBe(true);
+  });
+
+  it('should renew a certificate about to expire', async () => {
+    const expiring = selfsigned.generate([{ name: 'commonName', value: 'AirCodum' }], { days: 1, keySize: 2048 });
+    fs.writeFileSync(path.join(storagePath, 'aircodum-cert.pem'), expiring.cert);
+    fs.writeFileSync(path.join(storagePath, 'aircodum-key.pem'), expiring.private);
+
+    const renewed = await certificate.loadOrCreateCertificate(storagePath);
+
+    expect(renewed.fingerprint).not.toBe(certificate.getFingerprint(expiring.cert));
+    expect(renewed.renewed).toBe(true);
+  });
+
+  it('should keep a renewed key private to the user', async () => {
+    const keyPath = path.join(storagePath, 'aircodum-key.pem');
+    fs.writeFileSync(path.join(storagePath, 'aircodum-cert.pem'), 'garbage');
+    fs.writeFileSync(keyPath, 'old key', { mode: 0o644 });
+
+    await certificate.loadOrCreateCertificate(storagePath);
+
+    expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600);
+  });
+});
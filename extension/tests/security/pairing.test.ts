@@ -0,0 +1,187 @@
+/**
+ * Device Pairing Tests
+ */
+import { IncomingMessage } from 'http';
+
+describe('Device Pairing', () => {
+  let pairing: any;
+  let store: any;
+  let secrets: Map<string, string>;
+
+  const request = (query: string, remoteAddress = '192.168.1.50') =>
+    ({ url: `/?${query}`, socket: { remoteAddress } } as unknown as IncomingMessage);
+
+  beforeEach(async () => {
+    jest.resetModules();
+    store = require('../../src/state/store').store;
+    pairing = require('../../src/security/pairing');
+
+    store.setState({ pairing: { code: null, devices: [] } });
+
+    secrets = new Map();
+    await pairing.initPairing({
+      secrets: {
+        get: jest.fn(async (key: string) => secrets.get(key)),
+        store: jest.fn(async (key: string, value: string) => {
+          secrets.set(key, value);
+        }),
+        delete: jest.fn(async (key: string) => {
+          secrets.delete(key);
+        }),
+      },
+    });
+  });
+
+  it('should generate a six digit pairing code', () => {
+    const { code, expiresAt } = pairing.createPairingCode();
+
+    expect(code).toMatch(/^\d{6}$/);
+    expect(expiresAt).toBeGreaterThan(Date.now());
+    expect(pairing.getActivePairingCode().code).toBe(code);
+  });
+
+  it('should reject requests without credentials', async () => {
+    await expect(pairing.authenticateRequest(request(''))).resolves.toBeNull();
+  });
+
+  it('should reject a wrong pairing code', async () => {
+    const { code } = pairing.createPairingCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    await expect(
+      pairing.authenticateRequest(request(`code=${wrong}`))
+    ).resolves.toBeNull();
+  });
+
+  it('should refuse codes from an address after too many wrong ones', async () => {
+    const { code } = pairing.createPairingCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+    for (let i = 0; i < 5; i++) {
+      await pairing.authenticateRequest(request(`code=${wrong}`, '10.0.0.66'));
+    }
+
+    await expect(
+      pairing.authenticateRequest(request(`code=${code}`, '10.0.0.66'))
+    ).resolves.toBeNull();
+    await expect(
+      pairing.authenticateRequest(request(`code=${code}`, '10.0.0.7'))
+    ).resolves.not.toBeNull();
+  });
+
+  it('should replace a code that has been guessed at too often', async () => {
+    const { code } = pairing.createPairingCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+    for (let i = 0; i < 10; i++) {
+      await pairing.authenticateRequest(request(`code=${wrong}`, `10.0.1.${i}`));
+    }
+
+    expect(pairing.getActivePairingCode().code).not.toBe(code);
+    await expect(
+      pairing.authenticateRequest(request(`code=${code}`, '10.0.0.7'))
+    ).resolves.toBeNull();
+  });
+
+  it('should pair a device with a valid code and issue a token', async () => {
+    const { code } = pairing.createPairingCode();
+
+    const auth = await pairing.authenticateRequest(
+      request(`code=${code}&name=Pixel`)
+    );
+
+    expect(auth.device.name).toBe('Pixel');
+    expect(typeof auth.token).toBe('string');
+    expect(pairing.getPairedDevices()).toHaveLength(1);
+    expect(secrets.get('aircodum.pairedDevices')).not.toContain(auth.token);
+  });
+
+  it('should only accept a pairing code once', async () => {
+    const { code } = pairing.createPairingCode();
+
+    await pairing.authenticateRequest(request(`code=${code}`));
+
+    await expect(
+      pairing.authenticateRequest(request(`code=${code}`))
+    ).resolves.toBeNull();
+  });
+
+  it('should reject an expired pairing code', async () => {
+    const { code } = pairing.createPairingCode();
+    store.setState({
+      pairing: { ...store.getState().pairing, code: { code, expiresAt: Date.now() - 1 } },
+    });
+
+    await expect(
+      pairing.authenticateRequest(request(`code=${code}`))
+    ).resolves.toBeNull();
+  });
+
+  it('should authenticate a paired device by its token', async () => {
+    const { code } = pairing.createPairingCode();
+    const { device, token } = await pairing.authenticateRequest(
+      request(`code=${code}`)
+    );
+
+    const auth = await pairing.authenticateRequest(
+      request(`device=${device.id}&token=${token}`)
+    );
+
+    expect(auth.device.id).toBe(device.id);
+    expect(auth.token).toBeUndefined();
+    await expect(
+      pairing.authenticateRequest(request(`device=${device.id}&token=nope`))
+    ).resolves.toBeNull();
+  });
+
+  it('should grant new devices every scope but running any command', async () => {
+    const { code } = pairing.createPairingCode();
+    const { device } = await pairing.authenticateRequest(request(`code=${code}`));
+
+    expect(device.scopes).toContain('input:keyboard');
+    expect(device.scopes).toContain('screen:view');
+    expect(device.scopes).not.toContain('commands:any');
+  });
+
+  it('should update the scopes of a device', async () => {
+    const { code } = pairing.createPairingCode();
+    const { device } = await pairing.authenticateRequest(request(`code=${code}`));
+
+    await pairing.setDeviceScopes(device.id, ['commands:builtin', 'screen:view', 'screen:view']);
+
+    expect(pairing.getPairedDevice(device.id).scopes).toEqual([
+      'screen:view',
+      'commands:builtin',
+    ]);
+    await expect(
+      pairing.setDeviceScopes(device.id, ['root:everything'])
+    ).rejects.toThrow('Unknown scopes');
+  });
+
+  it('should not bring back a device revoked while it reconnects', async () => {
+    const { code } = pairing.createPairingCode();
+    const { device, token } = await pairing.authenticateRequest(
+      request(`code=${code}`)
+    );
+
+    await Promise.all([
+      pairing.authenticateRequest(request(`device=${device.id}&token=${token}`)),
+      pairing.revokeDevice(device.id),
+    ]);
+
+    expect(pairing.getPairedDevices()).toHaveLength(0);
+    expect(JSON.parse(secrets.get('aircodum.pairedDevices')!)).toEqual([]);
+  });
+
+  it('should reject a revoked device', async () => {
+    const { code } = pairing.createPairingCode();
+    const { device, token } = await pairing.authenticateRequest(
+      request(`code=${code}`)
+    );
+
+    await expect(pairing.revokeDevice(device.id)).resolves.toBe(true);
+
+    expect(pairing.getPairedDevices()).toHaveLength(0);
+    await expect(
+      pairing.authenticateRequest(request(`device=${device.id}&token=${token}`))
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Permission Scope Tests
+ */
+
+describe('Permission Scopes', () => {
+  let scopes: any;
+
+  beforeEach(() => {
+    scopes = require('../../src/security/scopes');
+  });
+
+  describe('getCommandScope', () => {
+    it('should require commands:builtin for built-in commands', () => {
+      expect(scopes.getCommandScope('Select All')).toBe('commands:builtin');
+    });
+
+    it('should require commands:custom for parameterized commands', () => {
+      expect(scopes.getCommandScope('type hello')).toBe('commands:custom');
+      expect(scopes.getCommandScope('keytap enter')).toBe('commands:custom');
+      expect(scopes.getCommandScope('go to line 4')).toBe('commands:custom');
+      expect(scopes.getCommandScope('replace a with b')).toBe('commands:custom');
+    });
+
+    it('should require screen:view for screenshots', () => {
+      expect(scopes.getCommandScope('get screenshot')).toBe('screen:view');
+    });
+
+    it('should treat anything else as an AI chat prompt', () => {
+      expect(scopes.getCommandScope('explain this file')).toBe('ai:chat');
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should check the scopes granted to a device', () => {
+      const device = { scopes: ['screen:view'] };
+
+      expect(scopes.hasScope(device, 'screen:view')).toBe(true);
+      expect(scopes.hasScope(device, 'input:mouse')).toBe(false);
+    });
+  });
+
+  it('should only use known scopes in presets', () => {
+    Object.values(scopes.ScopePresets).forEach((preset: any) => {
+      preset.forEach((scope: string) => expect(scopes.isScope(scope)).toBe(true));
+    });
+  });
+
+  it('should leave running any command out of presets and defaults', () => {
+    Object.values(scopes.ScopePresets).forEach((preset: any) => {
+      expect(preset).not.toContain('commands:any');
+    });
+    expect(scopes.DefaultScopes).not.toContain('commands:any');
+  });
+});